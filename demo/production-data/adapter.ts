@@ -3,7 +3,7 @@
  * Converts production data format to internal Invoice schema
  */
 
-import { Invoice, LineItem } from '../../src/types/index.js';
+import { Invoice, LineItem, PurchaseOrder as CorePurchaseOrder } from '../../src/types/index.js';
 import { parseGermanDate } from '../../src/utils/date.js';
 
 /**
@@ -81,6 +81,7 @@ export function adaptInvoice(prodInvoice: ProductionInvoice): Invoice {
         unitPrice: item.unitPrice,
         amount: item.qty * item.unitPrice,
         sku: item.sku || undefined,
+        taxRate: fields.taxRate,
     }));
 
     return {
@@ -107,7 +108,7 @@ export function applyCorrections(
     invoice: Invoice,
     corrections: HumanCorrection
 ): Invoice {
-    const corrected = { ...invoice };
+    const corrected: Invoice = JSON.parse(JSON.stringify(invoice)); // Deep copy: line item corrections must not touch the system output
 
     for (const correction of corrections.corrections) {
         const { field, to } = correction;
@@ -134,55 +135,17 @@ export function applyCorrections(
 }
 
 /**
- * Match invoice to purchase orders
- * Returns best matching PO based on vendor, date proximity, and line items
+ * Convert production purchase order to internal schema
  */
-export function matchPurchaseOrder(
-    invoice: Invoice,
-    purchaseOrders: PurchaseOrder[]
-): string | null {
-    // Filter POs by vendor
-    const vendorPOs = purchaseOrders.filter(po => po.vendor === invoice.vendor);
-
-    if (vendorPOs.length === 0) return null;
-
-    // If invoice already has PO, verify it exists
-    if (invoice.poNumber) {
-        const exists = vendorPOs.find(po => po.poNumber === invoice.poNumber);
-        return exists ? invoice.poNumber : null;
-    }
-
-    // Match based on line items
-    if (!invoice.lineItems || invoice.lineItems.length === 0) return null;
-
-    const invoiceSKUs = invoice.lineItems
-        .map(item => item.sku)
-        .filter(sku => sku) as string[];
-
-    if (invoiceSKUs.length === 0) return null;
-
-    // Find POs with matching SKUs
-    const matchedPOs = vendorPOs.filter(po => {
-        const poSKUs = po.lineItems.map(item => item.sku);
-        return invoiceSKUs.some(sku => poSKUs.includes(sku));
-    });
-
-    if (matchedPOs.length === 0) return null;
-    if (matchedPOs.length === 1) return matchedPOs[0].poNumber;
-
-    // Multiple matches: choose closest by date (within 30 days)
-    if (!invoice.date) return matchedPOs[0].poNumber;
-
-    const invoiceDate = new Date(invoice.date);
-
-    const scored = matchedPOs.map(po => {
-        const poDate = new Date(po.date);
-        const daysDiff = Math.abs((invoiceDate.getTime() - poDate.getTime()) / (1000 * 60 * 60 * 24));
-        return { po, score: daysDiff };
-    });
-
-    scored.sort((a, b) => a.score - b.score);
-
-    // Only return if within 30 days
-    return scored[0].score <= 30 ? scored[0].po.poNumber : null;
+export function adaptPurchaseOrder(order: PurchaseOrder): CorePurchaseOrder {
+    return {
+        poNumber: order.poNumber,
+        vendor: order.vendor,
+        date: order.date,
+        lineItems: order.lineItems.map(item => ({
+            sku: item.sku,
+            quantity: item.qty,
+            unitPrice: item.unitPrice,
+        })),
+    };
 }
@@ -11,7 +11,7 @@ import path from 'path';
 import {
     adaptInvoice,
     applyCorrections,
-    matchPurchaseOrder,
+    adaptPurchaseOrder,
     ProductionInvoice,
     PurchaseOrder,
     HumanCorrection,
@@ -75,6 +75,10 @@ async function runProductionDemo() {
     const agent = new Agent('database/production-memory.db');
     await agent.initialize();
 
+    for (const order of purchaseOrders) {
+        agent.savePurchaseOrder(adaptPurchaseOrder(order));
+    }
+
     const results: any[] = [];
 
     // =========================================================================
@@ -117,13 +121,13 @@ async function runProductionDemo() {
     printSection('Processing INV-A-003 (PO matching needed)');
     const invA003Raw = adaptInvoice(invoicesRaw[2]);
 
-    // Try to match PO
-    const suggestedPO = matchPurchaseOrder(invA003Raw, purchaseOrders);
-    printInfo(`Suggested PO: ${suggestedPO || 'none'}`);
-
+    // The agent proposes the PO from the vendor's open orders
     result = await agent.process(invA003Raw);
     results.push({ id: invA003Raw.id, result });
 
+    const suggestedPO = result.poNumber;
+    printInfo(`Suggested PO: ${suggestedPO || 'none'}`);
+
     // Apply correction including PO
     const corrA003 = corrections.find(c => c.invoiceId === 'INV-A-003')!;
     const correctedA003 = applyCorrections(invA003Raw, corrA003);
@@ -253,6 +257,36 @@ async function runProductionDemo() {
     result = await agent.process(invC004);
     results.push({ id: invC004.id, result });
 
+    // INV-C-005: Follow-up of INV-C-002 with a wrong OCR SKU
+    printSection('Processing INV-C-005 (Learned SKU mapping vs. wrong OCR value)');
+    const invC005 = adaptInvoice({
+        ...invoicesRaw[9],
+        invoiceId: 'INV-C-005',
+        fields: {
+            ...invoicesRaw[9].fields,
+            invoiceNumber: 'FC-1005',
+            lineItems: invoicesRaw[9].fields.lineItems?.map(item => ({ ...item, sku: 'MISC' })),
+        },
+    });
+    result = await agent.process(invC005);
+
+    const skuC005 = result.lineItems?.[0]?.sku;
+    printInfo(`OCR SKU: MISC, applied SKU: ${skuC005 || 'null'}`);
+    if (skuC005 === 'FREIGHT') {
+        printSuccess('OUTCOME 6: ✓ Learned Seefracht → FREIGHT mapping outvotes the OCR value');
+    } else {
+        printWarning(`OUTCOME 6: Expected FREIGHT, got ${skuC005}`);
+    }
+    results.push({ id: invC005.id, result });
+
+    const approvedC005 = applyCorrections(invC005, {
+        invoiceId: 'INV-C-005',
+        vendor: invC005.vendor,
+        corrections: [{ field: 'lineItems[0].sku', from: 'MISC', to: 'FREIGHT', reason: 'Approved' }],
+        finalDecision: 'approved',
+    });
+    await agent.feedback(result, approvedC005);
+
     // =========================================================================
     // Summary
     // =========================================================================
@@ -0,0 +1,527 @@
+#!/usr/bin/env node
+/**
+ * Command-Line Interface
+ * Process invoices, learn from corrections and inspect or fix memory via Agent
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+
+import { Agent } from '../domain/agent.js';
+import { loadDecisionPolicy } from '../domain/decision-policy.js';
+import {
+    Invoice,
+    OutputContract,
+    RuleSummary,
+    PurchaseOrder,
+    GoodsReceipt,
+    ReplayCandidate,
+    ReplayMetrics,
+    PaymentSchedule,
+} from '../types/index.js';
+import { formatPaymentTerms } from '../utils/payment-terms.js';
+
+const USAGE = `Usage: memory-agent <command> [options]
+
+Commands:
+  process <invoice.json>                  Process an invoice (or an array of invoices)
+  learn <corrected.json> [--run <id>]     Learn from a correction of a persisted run (default: latest)
+  learn <system.json> <corrected.json>    Learn from a correction of an explicit system output
+  runs <invoiceId>                        Show the processing history of an invoice
+  vendors list                            List vendor memories
+  vendors show <name>                     Show patterns and defaults of a vendor
+  rules list [--vendor <name>]            List vendor patterns and correction rules
+  rules disable <ruleId>                  Stop applying a rule (keeps it in memory)
+  rules enable <ruleId>                   Apply a disabled rule again
+  rules delete <ruleId>                   Delete a rule (restorable via rule history)
+  duplicates check <invoice.json>         Check whether an invoice was already processed
+  orders import <orders.json>             Store purchase orders for PO matching
+  orders show <poNumber>                  Show a purchase order and its goods receipts
+  receipts import <receipts.json>         Store goods receipts for the three-way match
+  replay [candidate.json]                 Backtest memory (and candidate rule changes) on approved invoices
+  stats                                   Show memory and rule performance statistics
+
+Options:
+  --db <path>       SQLite memory database (default: database/memory.db)
+  --policy <path>   Decision policy JSON (escalation checks, thresholds, vendor overrides)
+  --json            Print machine-readable JSON
+  --vendor <name>   Filter "rules list" by vendor
+  --run <id>        Processing run corrected by "learn"
+  --actor <name>    Recorded on rule revisions made by rules disable/enable/delete
+  -h, --help        Show this help
+`;
+
+interface CliOptions {
+    db?: string;
+    policy?: string;
+    json: boolean;
+    vendor?: string;
+    run?: string;
+    actor?: string;
+}
+
+type CommandHandler = (agent: Agent, args: string[], options: CliOptions) => Promise<number>;
+
+/**
+ * Commands keyed by "<command>" or "<command> <subcommand>"
+ */
+const COMMANDS: Record<string, CommandHandler> = {
+    'process': processCommand,
+    'learn': learnCommand,
+    'runs': runsCommand,
+    'vendors list': vendorsListCommand,
+    'vendors show': vendorsShowCommand,
+    'rules list': rulesListCommand,
+    'rules disable': (agent, args, options) => rulesToggleCommand(agent, args, options, true),
+    'rules enable': (agent, args, options) => rulesToggleCommand(agent, args, options, false),
+    'rules delete': rulesDeleteCommand,
+    'duplicates check': duplicatesCheckCommand,
+    'orders import': ordersImportCommand,
+    'orders show': ordersShowCommand,
+    'receipts import': receiptsImportCommand,
+    'replay': replayCommand,
+    'stats': statsCommand,
+};
+
+async function main(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            db: { type: 'string' },
+            policy: { type: 'string' },
+            json: { type: 'boolean', default: false },
+            vendor: { type: 'string' },
+            run: { type: 'string' },
+            actor: { type: 'string' },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    if (values.help || positionals.length === 0) {
+        process.stdout.write(USAGE);
+        return values.help ? 0 : 2;
+    }
+
+    const [command, subcommand, ...rest] = positionals;
+    const nested = subcommand !== undefined ? COMMANDS[`${command} ${subcommand}`] : undefined;
+    const handler = nested || COMMANDS[command];
+    const args = nested ? rest : positionals.slice(1);
+
+    if (!handler) {
+        process.stderr.write(`Unknown command: ${positionals.join(' ')}\n\n${USAGE}`);
+        return 2;
+    }
+
+    const options: CliOptions = {
+        db: values.db,
+        policy: values.policy,
+        json: values.json === true,
+        vendor: values.vendor,
+        run: values.run,
+        actor: values.actor,
+    };
+
+    const dbPath = options.db || path.join(process.cwd(), 'database', 'memory.db');
+    fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+
+    // Agent progress logs would corrupt JSON output
+    const agent = new Agent(dbPath, {
+        verbose: !options.json,
+        policy: options.policy ? loadDecisionPolicy(options.policy) : undefined,
+    });
+
+    try {
+        return await handler(agent, args, options);
+    } finally {
+        agent.close();
+    }
+}
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+async function processCommand(agent: Agent, args: string[], options: CliOptions): Promise<number> {
+    const [file] = requireArgs(args, 1, 'process <invoice.json>');
+    const input = readJson(file);
+    const invoices: Invoice[] = Array.isArray(input) ? input : [input];
+
+    const outputs: OutputContract[] = [];
+    for (const invoice of invoices) {
+        outputs.push(await agent.process(invoice));
+    }
+
+    if (options.json) {
+        printJson(Array.isArray(input) ? outputs : outputs[0]);
+        return 0;
+    }
+
+    for (const output of outputs) {
+        console.log(`${output.invoiceId}: ${output.requiresHumanReview ? 'REVIEW' : 'AUTO-APPROVE'} (confidence ${output.confidence.toFixed(2)})`);
+        if (output.reviewReasons.length === 0) console.log(`  ${output.reasoning}`);
+        for (const reason of output.reviewReasons) {
+            console.log(`  ! ${reason.severity} ${reason.code}: ${reason.message}`);
+        }
+        for (const entry of output.auditTrail.filter(e => e.step === 'APPLY')) {
+            console.log(`  • ${entry.field} = ${JSON.stringify(entry.newValue)} (${entry.action})`);
+        }
+        if (output.paymentSchedule) printPaymentSchedule(output.paymentSchedule);
+    }
+
+    return 0;
+}
+
+async function learnCommand(agent: Agent, args: string[], options: CliOptions): Promise<number> {
+    requireArgs(args, 1, 'learn [<system.json>] <corrected.json>');
+
+    let outcomes: Map<string, string> | null;
+    const corrected = readJson(args[args.length - 1]);
+
+    if (args.length === 1) {
+        // Diff against the persisted run of the invoice
+        outcomes = await agent.learnFromCorrection(corrected, options.run);
+        if (!outcomes) {
+            process.stderr.write(`No processing run found for invoice ${corrected.id}${options.run ? ` (run ${options.run})` : ''}\n`);
+            return 1;
+        }
+    } else {
+        // Accept either a processed output contract or a plain invoice as system output
+        const systemOutput = readJson(args[0]);
+        if (systemOutput.invoiceId && systemOutput.auditTrail) {
+            outcomes = await agent.feedback(systemOutput, corrected);
+        } else {
+            await agent.learn(systemOutput, corrected);
+            outcomes = new Map();
+        }
+    }
+
+    if (options.json) printJson({ invoiceId: corrected.id, outcomes: Object.fromEntries(outcomes) });
+    return 0;
+}
+
+async function runsCommand(agent: Agent, args: string[], options: CliOptions): Promise<number> {
+    const [invoiceId] = requireArgs(args, 1, 'runs <invoiceId>');
+    const runs = agent.getProcessingRuns(invoiceId);
+
+    if (options.json) {
+        printJson(runs);
+        return 0;
+    }
+
+    if (runs.length === 0) console.log(`No processing runs for invoice ${invoiceId}.`);
+    for (const run of runs) {
+        const decision = run.output.requiresHumanReview ? 'REVIEW' : 'AUTO-APPROVE';
+        console.log(`${run.createdAt}  ${run.runId}  ${decision}  confidence ${run.output.confidence.toFixed(2)}${run.correctedAt ? `  corrected ${run.correctedAt}` : ''}`);
+        for (const proposal of Object.values(run.proposals)) {
+            console.log(`  • ${proposal.field} = ${JSON.stringify(proposal.value)} (${proposal.source}${proposal.ruleId ? ` ${proposal.ruleId}` : ''})`);
+        }
+    }
+
+    return 0;
+}
+
+async function vendorsListCommand(agent: Agent, _args: string[], options: CliOptions): Promise<number> {
+    const vendors = agent.getAllVendorMemories().map(vendor => ({
+        id: vendor.id,
+        vendorName: vendor.vendorName,
+        patterns: Object.keys(vendor.patterns),
+        updatedAt: vendor.updatedAt,
+    }));
+
+    if (options.json) {
+        printJson(vendors);
+        return 0;
+    }
+
+    if (vendors.length === 0) console.log('No vendor memories.');
+    for (const vendor of vendors) {
+        console.log(`${vendor.vendorName}  [${vendor.patterns.join(', ') || 'no patterns'}]  updated ${vendor.updatedAt}`);
+    }
+
+    return 0;
+}
+
+async function vendorsShowCommand(agent: Agent, args: string[], options: CliOptions): Promise<number> {
+    const [name] = requireArgs(args, 1, 'vendors show <name>');
+    const vendor = agent.getVendorMemory(name);
+
+    if (!vendor) {
+        process.stderr.write(`Vendor not found: ${name}\n`);
+        return 1;
+    }
+
+    const rules = agent.listRules().filter(rule => rule.vendor === vendor.vendorName);
+    const statistics = agent.getVendorStatistics(vendor.vendorName);
+
+    if (options.json) {
+        printJson({ ...vendor, rules, statistics });
+        return 0;
+    }
+
+    console.log(`${vendor.vendorName} (${vendor.id})`);
+    console.log(`  Aliases:  ${vendor.fingerprints.join(', ')}`);
+    console.log(`  Defaults: ${JSON.stringify(vendor.defaults || {})}`);
+    if (vendor.dateOrder) console.log(`  Dates:    ${vendor.dateOrder === 'MDY' ? 'month' : 'day'} first (${vendor.dateOrder})`);
+    if (vendor.paymentTerms) console.log(`  Terms:    ${formatPaymentTerms(vendor.paymentTerms)} (learned)`);
+    for (const [field, pattern] of Object.entries(vendor.patterns)) {
+        const rule = rules.find(r => r.field === field);
+        console.log(`  ${field}: ${pattern.ruleType}${pattern.disabled ? ' (disabled)' : ''}  ${JSON.stringify(pattern.logic)}`);
+        if (rule) console.log(`    ${formatTrackRecord(rule)}`);
+    }
+
+    console.log(`  History:  ${statistics.invoices} processed invoice(s)`);
+    if (statistics.totalAmount) {
+        const { min, median, max } = statistics.totalAmount;
+        console.log(`    Total:      median ${median} (${min}-${max})`);
+    }
+    for (const [label, counts] of Object.entries({
+        'Currency:  ': statistics.currencies,
+        'Tax rate:  ': statistics.taxRates,
+        'Terms:     ': statistics.paymentTerms,
+        'Accounts:  ': statistics.bankAccounts,
+    })) {
+        if (Object.keys(counts).length > 0) console.log(`    ${label} ${formatCounts(counts)}`);
+    }
+    if (statistics.meanIntervalDays !== null) {
+        console.log(`    Frequency:  every ${statistics.meanIntervalDays.toFixed(0)} day(s), last ${statistics.lastInvoiceDate}`);
+    }
+
+    return 0;
+}
+
+async function rulesListCommand(agent: Agent, _args: string[], options: CliOptions): Promise<number> {
+    const rules = agent.listRules()
+        .filter(rule => !options.vendor || rule.vendor === options.vendor);
+
+    if (options.json) {
+        printJson(rules);
+        return 0;
+    }
+
+    if (rules.length === 0) console.log('No rules.');
+    for (const rule of rules) {
+        const owner = rule.vendor ? `${rule.vendor} / ${rule.field}` : rule.field;
+        console.log(`${rule.id}${rule.disabled ? '  (disabled)' : ''}`);
+        console.log(`  ${rule.kind} ${rule.ruleType}  ${owner}  ${formatTrackRecord(rule)}`);
+        console.log(`  ${rule.description}`);
+    }
+
+    return 0;
+}
+
+async function rulesToggleCommand(
+    agent: Agent,
+    args: string[],
+    options: CliOptions,
+    disabled: boolean
+): Promise<number> {
+    const [ruleId] = requireArgs(args, 1, `rules ${disabled ? 'disable' : 'enable'} <ruleId>`);
+    const found = agent.setRuleDisabled(ruleId, disabled, options.actor);
+
+    return reportRuleChange(ruleId, found, options);
+}
+
+async function rulesDeleteCommand(agent: Agent, args: string[], options: CliOptions): Promise<number> {
+    const [ruleId] = requireArgs(args, 1, 'rules delete <ruleId>');
+    const found = agent.deleteRule(ruleId, options.actor);
+
+    return reportRuleChange(ruleId, found, options);
+}
+
+async function duplicatesCheckCommand(agent: Agent, args: string[], options: CliOptions): Promise<number> {
+    const [file] = requireArgs(args, 1, 'duplicates check <invoice.json>');
+    const input = readJson(file);
+    const invoices: Invoice[] = Array.isArray(input) ? input : [input];
+    const results = invoices.map(invoice => ({ invoiceId: invoice.id, ...agent.checkDuplicate(invoice) }));
+
+    if (options.json) {
+        printJson(Array.isArray(input) ? results : results[0]);
+        return 0;
+    }
+
+    for (const result of results) {
+        console.log(result.isDuplicate
+            ? `${result.invoiceId}: DUPLICATE of ${result.matchedInvoiceId} (processed ${result.processedAt})`
+            : `${result.invoiceId}: not processed before`);
+
+        for (const candidate of result.candidates) {
+            console.log(`  ${candidate.similarity.toFixed(2)}  ${candidate.invoiceId}  ${candidate.vendor} ${candidate.invoiceNumber}  (${candidate.reasons.join(', ')})`);
+        }
+    }
+
+    return 0;
+}
+
+async function ordersImportCommand(agent: Agent, args: string[], options: CliOptions): Promise<number> {
+    const [file] = requireArgs(args, 1, 'orders import <orders.json>');
+    const input = readJson(file);
+    const orders: PurchaseOrder[] = Array.isArray(input) ? input : [input];
+
+    for (const order of orders) {
+        agent.savePurchaseOrder(order);
+    }
+
+    if (options.json) {
+        printJson({ imported: orders.length });
+    } else {
+        console.log(`Imported ${orders.length} purchase order(s).`);
+    }
+
+    return 0;
+}
+
+async function ordersShowCommand(agent: Agent, args: string[], options: CliOptions): Promise<number> {
+    const [poNumber] = requireArgs(args, 1, 'orders show <poNumber>');
+    const result = agent.getPurchaseOrder(poNumber);
+
+    if (!result) {
+        process.stderr.write(`Purchase order not found: ${poNumber}\n`);
+        return 1;
+    }
+
+    if (options.json) {
+        printJson(result);
+        return 0;
+    }
+
+    const { order, receipts } = result;
+    console.log(`${order.poNumber}  ${order.vendor}  ordered ${order.date}`);
+    for (const line of order.lineItems) {
+        console.log(`  • ${line.sku || line.description || '-'}: ${line.quantity} x ${line.unitPrice}`);
+    }
+    for (const receipt of receipts) {
+        const received = receipt.lineItems.map(line => `${line.sku || line.description || '-'} ${line.quantity}`);
+        console.log(`  Receipt ${receipt.receiptId} (${receipt.receivedAt}): ${received.join(', ')}`);
+    }
+
+    return 0;
+}
+
+async function receiptsImportCommand(agent: Agent, args: string[], options: CliOptions): Promise<number> {
+    const [file] = requireArgs(args, 1, 'receipts import <receipts.json>');
+    const input = readJson(file);
+    const receipts: GoodsReceipt[] = Array.isArray(input) ? input : [input];
+
+    for (const receipt of receipts) {
+        agent.saveGoodsReceipt(receipt);
+    }
+
+    if (options.json) {
+        printJson({ imported: receipts.length });
+    } else {
+        console.log(`Imported ${receipts.length} goods receipt(s).`);
+    }
+
+    return 0;
+}
+
+async function replayCommand(agent: Agent, args: string[], options: CliOptions): Promise<number> {
+    const candidate: ReplayCandidate | undefined = args[0] ? readJson(args[0]) : undefined;
+    const report = await agent.replay(undefined, candidate);
+
+    if (options.json) {
+        printJson(report);
+        return 0;
+    }
+
+    printReplayMetrics('Baseline', report.baseline);
+    if (!report.candidate) return 0;
+
+    printReplayMetrics('Candidate', report.candidate);
+    console.log(`New errors:   ${report.newErrors.length}`);
+    for (const error of report.newErrors) {
+        console.log(`  ! ${error.invoiceId} ${error.field}: ${JSON.stringify(error.proposed)}, approved ${JSON.stringify(error.approved)}${error.ruleId ? ` (${error.ruleId})` : ''}`);
+    }
+    console.log(`Fixed errors: ${report.fixedErrors.length}`);
+
+    return 0;
+}
+
+async function statsCommand(agent: Agent, _args: string[], options: CliOptions): Promise<number> {
+    const stats = agent.getStats();
+
+    if (options.json) {
+        printJson(stats);
+        return 0;
+    }
+
+    console.log(`Schema version:      ${stats.schemaVersion}`);
+    console.log(`Vendors:             ${stats.vendors}`);
+    console.log(`Vendor patterns:     ${stats.vendorPatterns}`);
+    console.log(`Correction rules:    ${stats.correctionRules}`);
+    console.log(`Disabled rules:      ${stats.disabledRules}`);
+    console.log(`Processed invoices:  ${stats.processedInvoices}`);
+    console.log(`Rule applications:   ${stats.ruleApplications} (${stats.acceptedApplications} accepted, ${stats.rejectedApplications} rejected)`);
+    console.log(`Acceptance rate:     ${stats.acceptanceRate === null ? 'n/a' : `${(stats.acceptanceRate * 100).toFixed(1)}%`}`);
+
+    return 0;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function requireArgs(args: string[], count: number, usage: string): string[] {
+    if (args.length < count) {
+        throw new UsageError(`Usage: memory-agent ${usage}`);
+    }
+    return args;
+}
+
+function readJson(file: string): any {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+function printJson(value: unknown): void {
+    console.log(JSON.stringify(value, null, 2));
+}
+
+function formatTrackRecord(rule: RuleSummary): string {
+    return `confidence ${rule.confidence.toFixed(2)}, applied ${rule.applications}x (${rule.accepted} accepted, ${rule.rejected} rejected)`;
+}
+
+function printReplayMetrics(label: string, metrics: ReplayMetrics): void {
+    const percent = (value: number | null) => value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+
+    console.log(`${label}: ${metrics.cases} invoice(s), ${metrics.autoApproved} auto-approved (${percent(metrics.automationRate)}), ${metrics.autoApprovedWithErrors} with errors`);
+    for (const field of metrics.fields) {
+        console.log(`  • ${field.field}: precision ${percent(field.precision)}, recall ${percent(field.recall)} (${field.correct}/${field.proposed} proposed correct, ${field.fixed}/${field.needed} fixed)`);
+    }
+}
+
+function printPaymentSchedule(schedule: PaymentSchedule): void {
+    const source = schedule.source === 'VENDOR' ? ', completed from vendor memory' : '';
+    console.log(`  Payment: ${formatPaymentTerms(schedule.terms)}${source}${schedule.dueDate ? `, due ${schedule.dueDate}` : ''}`);
+    for (const discount of schedule.discounts) {
+        const until = discount.deadline ? ` until ${discount.deadline}` : '';
+        const payable = discount.payableAmount !== undefined ? `: pay ${discount.payableAmount.toFixed(2)} (saves ${discount.amount!.toFixed(2)})` : '';
+        console.log(`    Skonto ${discount.percent}%${until}${payable}`);
+    }
+}
+
+function formatCounts(counts: Record<string, number>): string {
+    return Object.entries(counts).map(([value, count]) => `${value} (${count}x)`).join(', ');
+}
+
+function reportRuleChange(ruleId: string, found: boolean, options: CliOptions): number {
+    if (!found) {
+        process.stderr.write(`Rule not found: ${ruleId}\n`);
+        return 1;
+    }
+
+    if (options.json) printJson({ ruleId, ok: true });
+    return 0;
+}
+
+class UsageError extends Error { }
+
+main(process.argv.slice(2))
+    .then(code => {
+        process.exitCode = code;
+    })
+    .catch(error => {
+        process.stderr.write(`${error instanceof UsageError ? '' : 'Error: '}${error.message}\n`);
+        process.exitCode = error instanceof UsageError ? 2 : 1;
+    });
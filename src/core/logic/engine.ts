@@ -4,7 +4,9 @@
  */
 
 import jsonLogic from 'json-logic-js';
-import { parseGermanDate, normalizeDate } from '../../utils/date.js';
+import { parseGermanDate, normalizeDate, isDateOrder, DateOrder } from '../../utils/date.js';
+import { splitLines, splitTokens, splitCells, findLabel, spanAtColumn } from '../../utils/layout.js';
+import { parseAmount, roundAmount, isAmountLocale, AmountLocale } from '../../utils/amount.js';
 
 /**
  * Custom operation: Extract value using regex
@@ -36,6 +38,65 @@ jsonLogic.add_operation('regexTest', (pattern: string, text: string) => {
     }
 });
 
+/**
+ * Custom operation: Extract value relative to a label (ANCHOR rules)
+ * unit "token": the Nth token after the label (punctuation-only tokens are skipped)
+ * unit "line": the line N lines below the label (0 = rest of the label's line)
+ */
+jsonLogic.add_operation('anchorExtract', (
+    text: string,
+    label: string,
+    unit: string = 'token',
+    offset: number = 1,
+    valuePattern: string | null = null
+) => {
+    if (!text || !label) return null;
+
+    const lines = splitLines(text);
+    const anchor = findLabel(lines, label);
+    if (!anchor) return null;
+
+    if (unit === 'line') {
+        const line = offset === 0
+            ? lines[anchor.line].substring(anchor.end)
+            : lines[anchor.line + offset];
+        return line === undefined ? null : matchValue(line.trim(), valuePattern);
+    }
+
+    // Tokens following the label, continuing onto subsequent lines
+    const tokens = [
+        ...splitTokens(lines[anchor.line].substring(anchor.end)),
+        ...lines.slice(anchor.line + 1).flatMap(line => splitTokens(line)),
+    ].filter(token => /[\p{L}\p{N}]/u.test(token.text));
+
+    const token = tokens[offset - 1];
+    return token ? matchValue(token.text, valuePattern) : null;
+});
+
+/**
+ * Custom operation: Extract the cell below a column header (POSITIONAL rules)
+ * Reads the row rowOffset lines below the header and picks the cell aligned with it
+ */
+jsonLogic.add_operation('positionalExtract', (
+    text: string,
+    header: string,
+    rowOffset: number = 1,
+    valuePattern: string | null = null
+) => {
+    if (!text || !header) return null;
+
+    const lines = splitLines(text);
+    const anchor = findLabel(lines, header);
+    if (!anchor) return null;
+
+    const rowIndex = anchor.line + rowOffset;
+    const row = lines[rowIndex];
+    if (row === undefined) return null;
+
+    const cell = spanAtColumn(splitCells(row, rowIndex), anchor.start, anchor.end);
+    return cell ? matchValue(cell.text, valuePattern) : null;
+});
+
 /**
  * Custom operation: Map description to SKU
  */
@@ -62,11 +123,14 @@ jsonLogic.add_operation('mapDescription', (description: string, mapping: Record<
 });
 
 /**
- * Custom operation: Normalize date (German format)
+ * Custom operation: Normalize the first date in text to ISO (see normalizeDate)
+ * The optional order ("DMY" or "MDY") reads slashed and dashed dates of a vendor
  */
-jsonLogic.add_operation('dateNormalize', (dateStr: string) => {
+jsonLogic.add_operation('dateNormalize', (dateStr: string, order?: DateOrder) => {
     if (!dateStr) return null;
-    return normalizeDate(dateStr);
+    if (order && !isDateOrder(order)) return null;
+
+    return normalizeDate(String(dateStr), order || undefined);
 });
 
 /**
@@ -78,19 +142,108 @@ jsonLogic.add_operation('parseGermanDate', (dateStr: string) => {
 });
 
 /**
- * Custom operation: Extract number from text
+ * Custom operation: Extract the first amount from text (notation detected, see parseAmount)
  */
 jsonLogic.add_operation('extractNumber', (text: string) => {
-    if (!text) return null;
+    if (text === null || text === undefined || text === '') return null;
+    return parseAmount(String(text));
+});
+
+/**
+ * Custom operation: Parse an amount in a given notation ("de", "en", "ch", "fr")
+ * Without a locale the notation is detected
+ */
+jsonLogic.add_operation('parseAmount', (text: string, locale?: AmountLocale) => {
+    if (text === null || text === undefined || text === '') return null;
+    if (locale && !isAmountLocale(locale)) return null;
+
+    return parseAmount(String(text), locale || undefined);
+});
+
+/**
+ * Custom operation: Extract a line item table (TABLE rules)
+ * Rows are the lines after the header that match rowPattern; each column maps a
+ * capture group to a line item property. The table ends at the first non-blank
+ * line that is not a row.
+ * Columns are [property, group, type] triples with type "text", "number" or "percent".
+ */
+jsonLogic.add_operation('extractTable', (
+    text: string,
+    header: string | null,
+    rowPattern: string,
+    columns: Array<[string, number, string]>
+) => {
+    if (!text || !rowPattern || !Array.isArray(columns)) return null;
+
+    let row: RegExp;
+    try {
+        row = new RegExp(rowPattern, 'i');
+    } catch (error) {
+        return null;
+    }
+
+    const lines = splitLines(text);
+    let start = 0;
 
-    const match = text.match(/[\d.,]+/);
-    if (!match) return null;
+    if (header) {
+        const anchor = findLabel(lines, header);
+        if (!anchor) return null;
+        start = anchor.line + 1;
+    }
+
+    const items: Record<string, any>[] = [];
 
-    // Replace comma with period for parsing
-    const cleaned = match[0].replace(',', '.');
-    const num = parseFloat(cleaned);
+    for (const line of lines.slice(start)) {
+        const match = row.exec(line);
+
+        if (!match) {
+            if (items.length > 0 && line.trim()) break;
+            continue;
+        }
 
-    return isNaN(num) ? null : num;
+        const item: Record<string, any> = {};
+        for (const [property, group, type] of columns) {
+            const cell = match[group]?.trim();
+            if (!cell) continue;
+
+            if (type === 'text') {
+                item[property] = cell;
+            } else {
+                const value = parseNumericCell(cell);
+                if (value !== null) item[property] = type === 'percent' ? value / 100 : value;
+            }
+        }
+        items.push(item);
+    }
+
+    return items.length > 0 ? items : null;
+});
+
+/**
+ * Custom operation: Round to cents
+ */
+jsonLogic.add_operation('roundAmount', (value: number) => {
+    if (value === null || value === undefined || isNaN(value)) return null;
+    return roundAmount(value);
+});
+
+/**
+ * Custom operation: Sum tax (mode "tax") or gross (mode "gross") over line items
+ * Line tax rates may be fractions (0.19) or percentages (19); returns null if a rate is missing
+ */
+jsonLogic.add_operation('lineItemTax', (lineItems: any[], mode: string = 'tax') => {
+    if (!Array.isArray(lineItems) || lineItems.length === 0) return null;
+
+    let sum = 0;
+    for (const item of lineItems) {
+        const amount = item.amount ?? (item.quantity ?? 0) * (item.unitPrice ?? 0);
+        if (item.taxRate === undefined || item.taxRate === null) return null;
+
+        const rate = normalizeTaxRate(item.taxRate);
+        sum += mode === 'gross' ? amount * (1 + rate) : amount * rate;
+    }
+
+    return sum;
 });
 
 /**
@@ -119,6 +272,31 @@ jsonLogic.add_operation('extractCurrency', (text: string) => {
     return null;
 });
 
+/**
+ * Apply an optional value pattern to extracted text
+ */
+function matchValue(text: string, valuePattern: string | null): string | null {
+    if (!text) return null;
+    if (!valuePattern) return text;
+
+    try {
+        const match = text.match(new RegExp(valuePattern, 'i'));
+        return match ? (match[1] ?? match[0]) : null;
+    } catch (error) {
+        return null;
+    }
+}
+
+/**
+ * Parse a number printed in a table cell ("1.250,00", "1,250.00", "1'250", "19 %")
+ * The notation is detected as by parseAmount
+ * @param text Cell text
+ * @returns Parsed number or null
+ */
+export function parseNumericCell(text: string): number | null {
+    return parseAmount(text);
+}
+
 /**
  * Execute JSON Logic rule
  * @param rule JsonLogic rule object
@@ -165,6 +343,70 @@ export function createRegexRule(
     };
 }
 
+/**
+ * Create an anchor extraction rule
+ * @param label Regex source of the anchor label
+ * @param unit Offset unit ('token' or 'line')
+ * @param offset Tokens or lines after the label
+ * @param valuePattern Optional regex the extracted value must match
+ * @param sourceField Field containing text to search
+ * @returns JsonLogic rule
+ */
+export function createAnchorRule(
+    label: string,
+    unit: 'token' | 'line',
+    offset: number,
+    valuePattern: string | null = null,
+    sourceField: string = 'rawText'
+): any {
+    return {
+        anchorExtract: [{ var: sourceField }, label, unit, offset, valuePattern],
+    };
+}
+
+/**
+ * Create a positional (column) extraction rule
+ * @param header Regex source of the column header
+ * @param rowOffset Lines between header and value row
+ * @param valuePattern Optional regex the extracted value must match
+ * @param sourceField Field containing text to search
+ * @returns JsonLogic rule
+ */
+export function createPositionalRule(
+    header: string,
+    rowOffset: number,
+    valuePattern: string | null = null,
+    sourceField: string = 'rawText'
+): any {
+    return {
+        positionalExtract: [{ var: sourceField }, header, rowOffset, valuePattern],
+    };
+}
+
+/**
+ * Column of a TABLE rule: line item property, capture group and value type
+ */
+export type TableColumn = [property: string, group: number, type: 'text' | 'number' | 'percent'];
+
+/**
+ * Create a line item table extraction rule
+ * @param header Regex source of the table header line (null: rows may start anywhere)
+ * @param rowPattern Regex source matching one table row
+ * @param columns Capture group mapping per line item property
+ * @param sourceField Field containing text to search
+ * @returns JsonLogic rule
+ */
+export function createTableRule(
+    header: string | null,
+    rowPattern: string,
+    columns: TableColumn[],
+    sourceField: string = 'rawText'
+): any {
+    return {
+        extractTable: [{ var: sourceField }, header, rowPattern, columns],
+    };
+}
+
 /**
  * Create a mapping rule
  * @param mapping Map of descriptions to values
@@ -177,33 +419,65 @@ export function createMapRule(mapping: Record<string, string>, sourceField: stri
     };
 }
 
+/**
+ * Arithmetic formula types understood by createArithmeticRule
+ */
+export type ArithmeticFormula =
+    | 'inclusive_vat' // Tax = Gross - Gross / (1 + rate)
+    | 'exclusive_vat' // Tax = Net * rate
+    | 'net_from_gross' // Net = Gross / (1 + rate)
+    | 'gross_from_net' // Gross = Net * (1 + rate)
+    | 'line_item_vat' // Tax = Σ line amount * line rate
+    | 'line_item_gross'; // Gross = Σ line amount * (1 + line rate)
+
 /**
  * Create an arithmetic rule
- * @param formula Formula type ('inclusive_vat', 'exclusive_vat', etc.)
+ * @param formula Formula type; legacy names like 'inclusive_vat_19' carry the rate as a suffix
  * @param sourceField Field containing base value
+ * @param rate Tax rate as a fraction (e.g. 0.07); ignored by line item formulas
  * @returns JsonLogic rule
  */
-export function createArithmeticRule(formula: string, sourceField: string): any {
+export function createArithmeticRule(formula: string, sourceField: string, rate?: number): any {
+    const legacy = formula.match(/^(inclusive_vat|exclusive_vat|net_from_gross)_(\d+)$/);
+    if (legacy) {
+        return createArithmeticRule(legacy[1], sourceField, parseInt(legacy[2]) / 100);
+    }
+
+    const source = { var: sourceField };
+
     switch (formula) {
-        case 'inclusive_vat_19':
-            // Tax = Total - (Total / 1.19)
+        case 'inclusive_vat':
+            if (rate === undefined) return null;
+            return {
+                roundAmount: [{ '-': [source, { '/': [source, 1 + rate] }] }],
+            };
+
+        case 'exclusive_vat':
+            if (rate === undefined) return null;
+            return {
+                roundAmount: [{ '*': [source, rate] }],
+            };
+
+        case 'net_from_gross':
+            if (rate === undefined) return null;
             return {
-                '-': [
-                    { var: sourceField },
-                    { '/': [{ var: sourceField }, 1.19] },
-                ],
+                roundAmount: [{ '/': [source, 1 + rate] }],
             };
 
-        case 'exclusive_vat_19':
-            // Tax = Net * 0.19
+        case 'gross_from_net':
+            if (rate === undefined) return null;
             return {
-                '*': [{ var: sourceField }, 0.19],
+                roundAmount: [{ '*': [source, 1 + rate] }],
             };
 
-        case 'net_from_gross_19':
-            // Net = Total / 1.19
+        case 'line_item_vat':
             return {
-                '/': [{ var: sourceField }, 1.19],
+                roundAmount: [{ lineItemTax: [source, 'tax'] }],
+            };
+
+        case 'line_item_gross':
+            return {
+                roundAmount: [{ lineItemTax: [source, 'gross'] }],
             };
 
         default:
@@ -211,6 +485,15 @@ export function createArithmeticRule(formula: string, sourceField: string): any
     }
 }
 
+/**
+ * Normalize a tax rate to a fraction (19 → 0.19, 0.19 → 0.19)
+ * @param rate Tax rate as fraction or percentage
+ * @returns Tax rate as fraction
+ */
+export function normalizeTaxRate(rate: number): number {
+    return rate > 1 ? rate / 100 : rate;
+}
+
 /**
  * Create a condition rule
  * @param condition Condition logic
@@ -0,0 +1,354 @@
+/**
+ * Pattern Generalization
+ * Anti-unifies the label/value contexts of several corrections into the
+ * most specific extraction pattern consistent with all positive examples
+ */
+
+import { VendorPattern, PatternExample } from '../../types/index.js';
+import { getCurrentTimestamp, normalizeDate, findDateRenderings, DATE_PATTERN } from '../../utils/date.js';
+import { valuesMatch } from '../../utils/diff.js';
+import { formatAmountVariants } from '../../utils/amount.js';
+import { createRegexRule, executeRule } from './engine.js';
+
+/**
+ * Maximum number of positive examples retained per pattern
+ */
+export const MAX_PATTERN_EXAMPLES = 20;
+
+type ValueKind = 'DATE' | 'NUMBER' | 'CODE' | 'TEXT';
+
+interface ExampleContext {
+    prefix: string; // Text between line start and the value
+    rendering: string; // Value as printed in rawText
+}
+
+interface ShapeToken {
+    kind: 'DIGIT' | 'ALPHA' | 'LITERAL';
+    texts: string[];
+    min: number;
+    max: number;
+}
+
+export interface PatternMerge {
+    pattern: VendorPattern;
+    outcome: 'CREATED' | 'GENERALIZED' | 'REPLACED' | 'RETAINED';
+}
+
+/**
+ * Merge a newly induced pattern with the existing rule for the same field
+ * The existing rule is only replaced by a candidate that reproduces every stored example
+ * @param field Target field
+ * @param candidate Pattern induced from the latest correction
+ * @param example Evidence of the latest correction
+ * @param existing Current vendor pattern for the field
+ * @returns Pattern to store and how it was derived
+ */
+export function mergePattern(
+    field: string,
+    candidate: VendorPattern,
+    example: PatternExample,
+    existing?: VendorPattern
+): PatternMerge {
+    if (!existing) {
+        return { pattern: { ...candidate, examples: [example] }, outcome: 'CREATED' };
+    }
+
+    const examples = [...(existing.examples || []), example].slice(-MAX_PATTERN_EXAMPLES);
+
+    // Mappings generalize by union: later corrections add entries
+    if (candidate.ruleType === 'MAP' && existing.ruleType === 'MAP') {
+        return { pattern: mergeMappings(existing, candidate, examples), outcome: 'GENERALIZED' };
+    }
+
+    if (validatePattern(field, existing, examples)) {
+        return { pattern: { ...existing, examples }, outcome: 'RETAINED' };
+    }
+
+    const generalized = generalizePattern(field, examples);
+    if (generalized) {
+        return { pattern: generalized, outcome: 'GENERALIZED' };
+    }
+
+    if (validatePattern(field, candidate, examples)) {
+        return { pattern: { ...candidate, examples }, outcome: 'REPLACED' };
+    }
+
+    // Nothing explains all evidence: keep the existing rule rather than clobber it
+    return { pattern: { ...existing, examples }, outcome: 'RETAINED' };
+}
+
+/**
+ * Synthesize the most specific regex consistent with all examples
+ * Labels are anti-unified to their common suffix (falling back to an alternation
+ * of the distinct labels), values to a shared character shape
+ * @param field Target field
+ * @param examples Positive examples
+ * @returns Generalized pattern or null if no label explains every example
+ */
+export function generalizePattern(
+    field: string,
+    examples: PatternExample[]
+): VendorPattern | null {
+    if (examples.length === 0) return null;
+
+    const contexts: ExampleContext[] = [];
+    for (const example of examples) {
+        const context = locateValue(field, example);
+        if (!context) return null;
+        contexts.push(context);
+    }
+
+    const kind = valueKind(field, examples[0].value);
+    const valuePattern = generalizeValues(kind, contexts.map(c => c.rendering));
+    const labels = contexts.map(c => c.prefix.trim().replace(/[:\s]+$/, ''));
+
+    const labelCandidates = [
+        [commonSuffix(labels)],
+        [...new Set(labels)],
+    ];
+
+    const latest = contexts[contexts.length - 1];
+
+    for (const candidateLabels of labelCandidates) {
+        // Require a meaningful label, not just shared punctuation
+        if (!candidateLabels.every(isMeaningfulLabel)) continue;
+
+        const labelPattern = candidateLabels.map(escapeLabel).join('|');
+
+        const regex = createRegexRule(`(?:${labelPattern})[:\\s]*(${valuePattern})`, 'rawText', 1);
+        const pattern: VendorPattern = {
+            ruleType: 'REGEX',
+            logic: normalizeExtraction(kind, regex, contexts, examples),
+            confidence: 0.95,
+            sampleEvidence: `${latest.prefix}${latest.rendering}`.trim(),
+            examples,
+            createdAt: getCurrentTimestamp(),
+        };
+
+        if (validatePattern(field, pattern, examples)) return pattern;
+    }
+
+    return null;
+}
+
+/**
+ * Check that a pattern reproduces the approved value of every example
+ * @param field Target field
+ * @param pattern Pattern to validate
+ * @param examples Positive examples with their source text
+ * @returns true if all examples are reproduced
+ */
+export function validatePattern(
+    field: string,
+    pattern: VendorPattern,
+    examples: PatternExample[]
+): boolean {
+    return examples.every(example => {
+        const extracted = executeRule(pattern.logic, { rawText: example.rawText });
+        return extractionMatches(field, extracted, example.value);
+    });
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Parse numbers and normalize dates to ISO, in the day/month order the examples reveal
+ */
+function normalizeExtraction(kind: ValueKind, regex: any, contexts: ExampleContext[], examples: PatternExample[]): any {
+    if (kind === 'NUMBER') return { extractNumber: [regex] };
+    if (kind !== 'DATE') return regex;
+
+    const orders = new Set(contexts
+        .map((context, i) => findDateRenderings(context.rendering, normalizeDate(String(examples[i].value)) || '')[0]?.order)
+        .filter(order => order));
+
+    return orders.size === 1 ? { dateNormalize: [regex, [...orders][0]] } : { dateNormalize: [regex] };
+}
+
+function mergeMappings(
+    existing: VendorPattern,
+    candidate: VendorPattern,
+    examples: PatternExample[]
+): VendorPattern {
+    const [source, candidateMapping] = candidate.logic.mapDescription;
+    const existingMapping = existing.logic.mapDescription?.[1] || {};
+
+    return {
+        ...candidate,
+        logic: { mapDescription: [source, { ...existingMapping, ...candidateMapping }] },
+        examples,
+    };
+}
+
+function extractionMatches(field: string, extracted: any, expected: any): boolean {
+    if (extracted === null || extracted === undefined) return false;
+    if (Array.isArray(expected)) return tableMatches(extracted, expected);
+    if (valuesMatch(extracted, expected)) return true;
+
+    // Free-text rules capture the whole line around the value
+    return valueKind(field, expected) === 'TEXT'
+        && typeof extracted === 'string'
+        && extracted.includes(String(expected));
+}
+
+/**
+ * Table rules must yield every corrected row, each extracted cell agreeing with its line item
+ */
+function tableMatches(extracted: any, expected: any[]): boolean {
+    return Array.isArray(extracted)
+        && extracted.length === expected.length
+        && extracted.every((row, i) => Object.keys(row).length > 0
+            && Object.entries(row).every(([property, value]) => valuesMatch(value, expected[i]?.[property])));
+}
+
+function valueKind(field: string, value: any): ValueKind {
+    if (/date/i.test(field)) return 'DATE';
+    if (typeof value === 'number') return 'NUMBER';
+
+    if (typeof value === 'string' && /\d/.test(value) && /^[A-Za-z0-9][A-Za-z0-9\-\/._]*$/.test(value)) {
+        return 'CODE';
+    }
+
+    return 'TEXT';
+}
+
+function renderValue(field: string, value: any, rawText: string): string[] {
+    const kind = valueKind(field, value);
+
+    // Any printed form of the date ("15.01.2024", "01/15/2024", "15. Januar 2024", ...)
+    if (kind === 'DATE') {
+        const isoDate = normalizeDate(String(value));
+        return isoDate ? findDateRenderings(rawText, isoDate).map(rendering => rendering.text) : [String(value)];
+    }
+
+    if (kind === 'NUMBER') return formatAmountVariants(value);
+
+    return [String(value)];
+}
+
+/**
+ * Find where the value is printed in the example's text
+ * Prefers the longest rendering and occurrences preceded by a label
+ */
+function locateValue(field: string, example: PatternExample): ExampleContext | null {
+    const { rawText } = example;
+    if (!rawText) return null;
+
+    const renderings = [...new Set(renderValue(field, example.value, rawText))]
+        .sort((a, b) => b.length - a.length);
+
+    let fallback: ExampleContext | null = null;
+
+    for (const rendering of renderings) {
+        let index = rawText.indexOf(rendering);
+
+        while (index !== -1) {
+            const lineStart = rawText.lastIndexOf('\n', index - 1) + 1;
+            const context = { prefix: rawText.slice(lineStart, index), rendering };
+
+            if (/[A-Za-zÄÖÜäöüß]/.test(context.prefix)) return context;
+            fallback = fallback || context;
+
+            index = rawText.indexOf(rendering, index + 1);
+        }
+    }
+
+    return fallback;
+}
+
+function commonSuffix(values: string[]): string {
+    if (values.length === 0) return '';
+
+    let suffix = values[0];
+    for (const value of values.slice(1)) {
+        let i = 0;
+        while (
+            i < suffix.length &&
+            i < value.length &&
+            suffix[suffix.length - 1 - i] === value[value.length - 1 - i]
+        ) {
+            i++;
+        }
+        suffix = suffix.slice(suffix.length - i);
+    }
+
+    return suffix;
+}
+
+/**
+ * Anti-unify value renderings into a character-class shape
+ * Structurally different renderings become alternatives
+ */
+function generalizeValues(kind: ValueKind, renderings: string[]): string {
+    if (kind === 'TEXT') return '[^\\n\\r]+';
+
+    // Dates are normalized after extraction, so any notation may be captured
+    if (kind === 'DATE') return DATE_PATTERN;
+
+    const groups = new Map<string, ShapeToken[]>();
+
+    for (const rendering of renderings) {
+        const tokens = tokenize(rendering);
+        const key = tokens
+            .map(t => (t.kind === 'LITERAL' ? `L${t.texts[0]}` : t.kind))
+            .join('|');
+
+        const group = groups.get(key);
+        if (!group) {
+            groups.set(key, tokens);
+            continue;
+        }
+
+        group.forEach((token, i) => {
+            token.texts.push(tokens[i].texts[0]);
+            token.min = Math.min(token.min, tokens[i].min);
+            token.max = Math.max(token.max, tokens[i].max);
+        });
+    }
+
+    return [...groups.values()]
+        .map(tokens => tokens.map(token => renderToken(kind, token)).join(''))
+        .join('|');
+}
+
+function tokenize(rendering: string): ShapeToken[] {
+    const parts = rendering.match(/\d+|[A-Za-zÄÖÜäöüß]+|[^\dA-Za-zÄÖÜäöüß]/g) || [];
+
+    return parts.map(part => ({
+        kind: /^\d/.test(part) ? 'DIGIT' : /^[A-Za-zÄÖÜäöüß]/.test(part) ? 'ALPHA' : 'LITERAL',
+        texts: [part],
+        min: part.length,
+        max: part.length,
+    }));
+}
+
+function renderToken(kind: ValueKind, token: ShapeToken): string {
+    const quantifier = token.min === token.max ? `{${token.min}}` : `{${token.min},${token.max}}`;
+
+    switch (token.kind) {
+        case 'DIGIT':
+            return `\\d${quantifier}`;
+        case 'ALPHA':
+            // Code prefixes shared by all examples stay literal (e.g. "PO")
+            if (kind === 'CODE' && token.texts.every(t => t === token.texts[0])) {
+                return escapeRegex(token.texts[0]);
+            }
+            return `[A-Za-z]${quantifier}`;
+        default:
+            return escapeRegex(token.texts[0]);
+    }
+}
+
+function escapeLabel(label: string): string {
+    return escapeRegex(label.trim()).replace(/\s+/g, '\\s+');
+}
+
+function isMeaningfulLabel(label: string): boolean {
+    return label.replace(/[^A-Za-zÄÖÜäöüß]/g, '').length >= 3;
+}
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,28 +1,68 @@
 /**
  * Induction Engine
- * Synthesizes rules from human corrections using three strategies:
+ * Synthesizes rules from human corrections using six strategies:
  * 1. Regex Induction (field extraction)
  * 2. Arithmetic Induction (formula derivation)
  * 3. Mapping Induction (SKU/description mapping)
+ * 4. Layout Induction (anchor/positional extraction where a regex is ambiguous)
+ * 5. Table Induction (line item rows and their column mapping)
+ * 6. Default Induction (vendor defaults for values absent from rawText)
  */
 
-import { Invoice, VendorPattern, CorrectionMemory, InductionResult } from '../../types/index.js';
-import { computeDiff, extractChanges } from '../../utils/diff.js';
-import { getCurrentTimestamp } from '../../utils/date.js';
-import { createRegexRule, createMapRule, createArithmeticRule } from './engine.js';
+import {
+    Invoice,
+    LineItem,
+    VendorPattern,
+    CorrectionMemory,
+    DefaultEvidence,
+    DefaultUpdate,
+    InductionResult,
+    InductionContext,
+    PaymentTerms,
+} from '../../types/index.js';
+import { computeDiff, extractChanges, valuesMatch, getFieldValue } from '../../utils/diff.js';
+import { getCurrentTimestamp, normalizeDate, findDateRenderings, daysBetween, DATE_PATTERN, DateOrder } from '../../utils/date.js';
+import { parsePaymentTerms } from '../../utils/payment-terms.js';
+import { splitLines, splitTokens, splitCells, spanAtColumn, TextSpan } from '../../utils/layout.js';
+import { AMOUNT_PATTERN, findAmountRenderings, parseAmount } from '../../utils/amount.js';
+import {
+    createRegexRule,
+    createMapRule,
+    createArithmeticRule,
+    createAnchorRule,
+    createPositionalRule,
+    createTableRule,
+    executeRule,
+    parseNumericCell,
+    ArithmeticFormula,
+    TableColumn,
+} from './engine.js';
+import { mergePattern, validatePattern } from './generalization.js';
 import crypto from 'crypto';
 
+const NUMBER_VALUE_PATTERN = `(${AMOUNT_PATTERN})`;
+const DATE_VALUE_PATTERN = `(${DATE_PATTERN})`;
+
+/**
+ * Vendor pattern keys of line item rules
+ */
+export const LINE_ITEMS_FIELD = 'lineItems'; // TABLE rule producing all rows
+export const LINE_SKU_FIELD = 'lineItems/*/sku'; // MAP rule evaluated per line
+
 /**
  * Main induction function
  * Analyzes diff between system output and human correction to generate rules
+ * Vendor rules are generalized against the evidence of existing patterns
  */
 export function induceRules(
     systemOutput: Invoice,
-    humanCorrection: Invoice
+    humanCorrection: Invoice,
+    context: InductionContext = {}
 ): InductionResult {
     const result: InductionResult = {
         vendorRules: [],
         correctionRules: [],
+        defaultUpdates: [],
     };
 
     // Compute diff
@@ -32,6 +72,7 @@ export function induceRules(
     }
 
     const changes = extractChanges(patch);
+    const formulaMatches: FormulaMatch[] = [];
 
     // Process each changed field
     for (const [field, newValue] of changes.entries()) {
@@ -41,70 +82,130 @@ export function induceRules(
         if (oldValue === newValue) continue;
 
         // Determine induction strategy based on field type
-        if (isDateField(field)) {
-            const rule = induceRegexForDate(field, newValue, systemOutput.rawText);
+        if (isLineItemField(field)) {
+            // SKUs are mapped per line; other line fields are learned as table structure below
+            const description = field.endsWith('/sku') ? getDescriptionForSku(field, systemOutput) : null;
+            if (description) {
+                const rule = induceMapping(description, newValue);
+                if (rule) {
+                    addVendorRule(result, LINE_SKU_FIELD, rule, newValue, humanCorrection, context);
+                }
+            }
+        } else if (isDateField(field)) {
+            // The vendor's day/month order, unless this correction reveals it
+            const order = induceDateOrder(newValue, systemOutput.rawText);
+            if (order) result.dateOrder = order;
+
+            const rule = induceRegexForDate(field, newValue, systemOutput.rawText, order || context.vendorMemory?.dateOrder);
             if (rule) {
-                result.vendorRules.push({ field, pattern: rule });
+                addVendorRule(result, field, rule, newValue, humanCorrection, context);
             }
         } else if (isNumericField(field) && typeof newValue === 'number') {
             // Check if it's a formula-based correction
-            const formulaRule = induceArithmeticFormula(field, newValue, systemOutput);
-            if (formulaRule) {
-                result.correctionRules.push(formulaRule);
+            const formulaMatch = induceArithmeticFormula(field, newValue, systemOutput, context.taxRates);
+            if (formulaMatch) {
+                formulaMatches.push(formulaMatch);
             } else {
                 // Try regex extraction for numbers
                 const rule = induceRegexForNumber(field, newValue, systemOutput.rawText);
                 if (rule) {
-                    result.vendorRules.push({ field, pattern: rule });
-                }
-            }
-        } else if (field.includes('sku') || field.includes('Sku')) {
-            // SKU mapping
-            const description = getDescriptionForSku(field, systemOutput);
-            if (description) {
-                const rule = induceMapping(field, description, newValue, systemOutput);
-                if (rule) {
-                    result.vendorRules.push({ field, pattern: rule });
+                    addVendorRule(result, field, rule, newValue, humanCorrection, context);
                 }
             }
         } else if (field.includes('paymentTerms')) {
             // Payment terms extraction
             const rule = induceRegexForPaymentTerms(newValue, systemOutput.rawText);
             if (rule) {
-                result.vendorRules.push({ field, pattern: rule });
+                addVendorRule(result, field, rule, newValue, humanCorrection, context);
             }
         } else if (field.includes('poNumber')) {
             // PO number extraction
             const rule = induceRegexForPO(newValue, systemOutput.rawText);
             if (rule) {
-                result.vendorRules.push({ field, pattern: rule });
+                addVendorRule(result, field, rule, newValue, humanCorrection, context);
             }
         } else {
             // Generic text field
             const rule = induceRegexForText(field, newValue, systemOutput.rawText);
             if (rule) {
-                result.vendorRules.push({ field, pattern: rule });
+                addVendorRule(result, field, rule, newValue, humanCorrection, context);
             }
         }
     }
 
+    // Line item corrections: learn the table layout that reproduces the corrected rows
+    const lineItems = humanCorrection.lineItems;
+    if (lineItems && lineItems.length > 0 && [...changes.keys()].some(isLineItemField)) {
+        const rule = induceTableRule(lineItems, systemOutput.rawText);
+        if (rule) {
+            addVendorRule(result, LINE_ITEMS_FIELD, rule, lineItems, humanCorrection, context);
+        }
+    }
+
+    // Formulas sharing a source and rate become one multi-field rule
+    result.correctionRules.push(...buildFormulaRules(formulaMatches, systemOutput));
+
+    // Values no rule could extract count as evidence for a vendor default
+    for (const field of DEFAULT_FIELDS) {
+        const value = changes.get(field);
+        if (typeof value !== 'string' || !value.trim()) continue;
+        if (result.vendorRules.some(rule => rule.field === field)) continue;
+
+        result.defaultUpdates.push(induceDefault(field, value.trim(), context));
+    }
+
+    // A due date no rule could extract reveals the vendor's net period
+    const dueDate = changes.get('dueDate');
+    if (typeof dueDate === 'string' && !result.vendorRules.some(rule => rule.field === 'dueDate')) {
+        const terms = inducePaymentTerms(dueDate, humanCorrection);
+        if (terms) result.paymentTerms = terms;
+    }
+
     return result;
 }
 
+/**
+ * Record a vendor rule, merging it with the existing pattern for the field
+ */
+function addVendorRule(
+    result: InductionResult,
+    field: string,
+    candidate: VendorPattern,
+    value: any,
+    invoice: Invoice,
+    context: InductionContext
+): void {
+    const existing = context.vendorMemory?.patterns[field];
+    const example = {
+        invoiceId: invoice.id,
+        value,
+        rawText: invoice.rawText,
+        recordedAt: getCurrentTimestamp(),
+    };
+
+    const { pattern, outcome } = mergePattern(field, candidate, example, existing);
+    result.vendorRules.push({ field, pattern, outcome });
+}
+
 // =============================================================================
 // Strategy 1: Regex Induction
 // =============================================================================
 
 /**
  * Induce regex pattern for date field (Leistungsdatum logic)
+ * Rules normalize the extracted date to ISO, reading numeric dates in the vendor's order
  */
 function induceRegexForDate(
-    _field: string,
+    field: string,
     dateValue: string,
-    rawText: string
+    rawText: string,
+    order?: DateOrder
 ): VendorPattern | null {
     if (!rawText || !dateValue) return null;
 
+    const isoDate = normalizeDate(String(dateValue));
+    if (!isoDate) return null;
+
     // Common date labels
     const labels = [
         'Leistungsdatum',
@@ -115,9 +216,12 @@ function induceRegexForDate(
         'Invoice Date',
     ];
 
-    // Try to find the date value in raw text
-    // Support formats: 2023-12-01, 01.12.2023, 01.12.23
-    const dateVariants = generateDateVariants(dateValue);
+    // Every rendering printed in the text that reads as the date in the vendor's order
+    // (2023-12-01, 01.12.2023, 01.12.23, 12/01/2023, 1. Dezember 2023, Dec 1, 2023, ...)
+    const dateVariants = findDateRenderings(rawText, isoDate)
+        .filter(rendering => !order || !rendering.order || rendering.order === order)
+        .map(rendering => rendering.text);
+    const normalize = (logic: any) => ({ dateNormalize: order ? [logic, order] : [logic] });
 
     for (const variant of dateVariants) {
         const escapedVariant = variant.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -129,11 +233,11 @@ function induceRegexForDate(
 
             if (regex.test(rawText)) {
                 // Found it! Create a generalizable pattern
-                const extractPattern = `${label}[:\\s]*(\\d{2}\\.\\d{2}\\.\\d{2,4}|\\d{4}-\\d{2}-\\d{2})`;
+                const extractPattern = `${label}[:\\s]*${DATE_VALUE_PATTERN}`;
 
                 return {
                     ruleType: 'REGEX',
-                    logic: createRegexRule(extractPattern, 'rawText', 1),
+                    logic: normalize(createRegexRule(extractPattern, 'rawText', 1)),
                     confidence: 0.95,
                     sampleEvidence: rawText.substring(Math.max(0, rawText.indexOf(variant) - 20), rawText.indexOf(variant) + variant.length + 20),
                     createdAt: getCurrentTimestamp(),
@@ -142,25 +246,40 @@ function induceRegexForDate(
         }
     }
 
+    // Label not adjacent to the date: anchor on the layout instead
+    const layoutRule = induceLayoutRule(field, isoDate, dateVariants, rawText, DATE_VALUE_PATTERN, normalize);
+    if (layoutRule) return layoutRule;
+
     // Fallback: just find the date value
-    for (const variant of dateVariants) {
-        if (rawText.includes(variant)) {
-            // Create a more specific pattern
-            const pattern = `(${variant.replace(/[\d]/g, '\\d')})`;
+    const variant = dateVariants[0];
+    if (variant) {
+        // Create a more specific pattern
+        const pattern = `(${variant.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/[\d]/g, '\\d')})`;
 
-            return {
-                ruleType: 'REGEX',
-                logic: createRegexRule(pattern, 'rawText', 1),
-                confidence: 0.70, // Lower confidence for non-labeled extraction
-                sampleEvidence: variant,
-                createdAt: getCurrentTimestamp(),
-            };
-        }
+        return {
+            ruleType: 'REGEX',
+            logic: normalize(createRegexRule(pattern, 'rawText', 1)),
+            confidence: 0.70, // Lower confidence for non-labeled extraction
+            sampleEvidence: variant,
+            createdAt: getCurrentTimestamp(),
+        };
     }
 
     return null;
 }
 
+/**
+ * Day/month order a date correction reveals: the order its slashed or dashed
+ * renderings must be read in (none if no rendering depends on the order, or they disagree)
+ */
+function induceDateOrder(dateValue: string, rawText: string): DateOrder | undefined {
+    const isoDate = normalizeDate(String(dateValue));
+    if (!isoDate || !rawText) return undefined;
+
+    const orders = new Set(findDateRenderings(rawText, isoDate).map(rendering => rendering.order).filter(order => order));
+    return orders.size === 1 ? [...orders][0] : undefined;
+}
+
 /**
  * Induce regex pattern for numeric field
  */
@@ -171,32 +290,30 @@ function induceRegexForNumber(
 ): VendorPattern | null {
     if (!rawText) return null;
 
-    const numStr = numValue.toString();
-    const numVariants = [numStr, numStr.replace('.', ',')];
-
-    for (const variant of numVariants) {
-        if (rawText.includes(variant)) {
-            // Try to find label
-            const fieldLabels = generateFieldLabels(field);
-
-            for (const label of fieldLabels) {
-                const pattern = `${label}[:\\s]*(\\d+[.,]?\\d*)`;
-                const regex = new RegExp(pattern, 'i');
-
-                if (regex.test(rawText)) {
-                    return {
-                        ruleType: 'REGEX',
-                        logic: createRegexRule(pattern, 'rawText', 1),
-                        confidence: 0.85,
-                        sampleEvidence: variant,
-                        createdAt: getCurrentTimestamp(),
-                    };
-                }
-            }
+    // Every rendering printed in the text ("2.380,00", "2,380.00", "2'380.00", ...)
+    const numVariants = findAmountRenderings(rawText, numValue);
+
+    const variant = numVariants[0];
+    if (!variant) return null;
+
+    // Try a label-adjacent regex that captures this very number
+    for (const label of generateFieldLabels(field)) {
+        const pattern = `${label}[:\\s]*(${AMOUNT_PATTERN})`;
+        const match = rawText.match(new RegExp(pattern, 'i'));
+
+        if (match && valuesMatch(parseAmount(match[1]), numValue)) {
+            return {
+                ruleType: 'REGEX',
+                logic: { extractNumber: [createRegexRule(pattern, 'rawText', 1)] },
+                confidence: 0.85,
+                sampleEvidence: variant,
+                createdAt: getCurrentTimestamp(),
+            };
         }
     }
 
-    return null;
+    // Label missing or adjacent to another number: anchor on the layout instead
+    return induceLayoutRule(field, numValue, numVariants, rawText, NUMBER_VALUE_PATTERN, logic => ({ extractNumber: [logic] }));
 }
 
 /**
@@ -290,87 +407,188 @@ function induceRegexForText(
 // Strategy 2: Arithmetic Induction
 // =============================================================================
 
+/**
+ * Tax rates searched when explaining an amount correction
+ * German 19%/7%, Austrian 20%/13%/10%, Swiss 8.1%/3.8%/2.6%
+ */
+export const DEFAULT_TAX_RATES = [0.19, 0.07, 0.20, 0.13, 0.10, 0.081, 0.038, 0.026];
+
+const INCLUSIVE_VAT_CUE = 'mwst\\.?\\s*inkl|gross|brutto|tax\\s*incl';
+
+interface FormulaHypothesis {
+    formula: ArithmeticFormula;
+    target: 'taxAmount' | 'netAmount' | 'totalAmount';
+    source: 'totalAmount' | 'netAmount' | 'lineItems';
+    cue?: string; // Regex that must appear in rawText
+    describe: (rate?: string) => string;
+}
+
+/**
+ * Formula hypotheses in order of preference per target field
+ */
+const FORMULA_HYPOTHESES: FormulaHypothesis[] = [
+    {
+        formula: 'inclusive_vat',
+        target: 'taxAmount',
+        source: 'totalAmount',
+        cue: INCLUSIVE_VAT_CUE,
+        describe: rate => `Calculate ${rate}% VAT from gross amount when "MwSt. inkl." detected`,
+    },
+    {
+        formula: 'exclusive_vat',
+        target: 'taxAmount',
+        source: 'netAmount',
+        describe: rate => `Calculate ${rate}% VAT from net amount`,
+    },
+    {
+        formula: 'line_item_vat',
+        target: 'taxAmount',
+        source: 'lineItems',
+        describe: () => 'Calculate VAT as the sum of per-line tax amounts',
+    },
+    {
+        formula: 'net_from_gross',
+        target: 'netAmount',
+        source: 'totalAmount',
+        describe: rate => `Calculate net amount from gross (${rate}% VAT)`,
+    },
+    {
+        formula: 'gross_from_net',
+        target: 'totalAmount',
+        source: 'netAmount',
+        describe: rate => `Calculate gross amount from net (${rate}% VAT)`,
+    },
+    {
+        formula: 'line_item_gross',
+        target: 'totalAmount',
+        source: 'lineItems',
+        describe: () => 'Calculate gross amount from per-line tax rates',
+    },
+];
+
+interface FormulaMatch {
+    hypothesis: FormulaHypothesis;
+    action: any; // JsonLogicRule computing the target
+    rate?: number;
+}
+
 /**
  * Induce arithmetic formula for tax/amount calculations
+ * Searches every hypothesis over the configured tax rates (line item formulas use
+ * the per-line rates) and returns the formula parameterized with the explaining rate
  */
 function induceArithmeticFormula(
     field: string,
     correctedValue: number,
-    invoice: Invoice
-): CorrectionMemory | null {
-    const { netAmount, totalAmount, taxAmount, rawText } = invoice;
+    invoice: Invoice,
+    taxRates: number[] = DEFAULT_TAX_RATES
+): FormulaMatch | null {
+    const rawText = invoice.rawText || '';
 
-    // Hypothesis 1: Inclusive VAT (Tax = Total - (Total / 1.19))
-    if (field === 'taxAmount' && totalAmount && !taxAmount) {
-        const calculated = totalAmount - (totalAmount / 1.19);
+    for (const hypothesis of FORMULA_HYPOTHESES) {
+        if (hypothesis.target !== field) continue;
+        if (hypothesis.cue && !new RegExp(hypothesis.cue, 'i').test(rawText)) continue;
 
-        if (Math.abs(calculated - correctedValue) < 0.01) {
-            // Check for "MwSt. inkl." or similar in raw text
-            if (rawText && /mwst\.?\s*inkl|gross|brutto|tax\s*incl/i.test(rawText)) {
-                return {
-                    id: generateRuleId('inclusive_vat_19'),
-                    triggerCondition: {
-                        and: [
-                            { '==': [{ var: 'taxAmount' }, 0] },
-                            { '>': [{ var: 'totalAmount' }, 0] },
-                            { regexTest: ['mwst\\.?\\s*inkl|gross|brutto|tax\\s*incl', { var: 'rawText' }] },
-                        ],
-                    },
-                    action: createArithmeticRule('inclusive_vat_19', 'totalAmount'),
-                    description: 'Calculate 19% VAT from gross amount when "MwSt. inkl." detected',
-                    confidence: 0.95,
-                    decayFactor: 0.95,
-                    createdAt: getCurrentTimestamp(),
-                };
+        const sourceValue = getFieldValue(invoice, hypothesis.source);
+        if (!sourceValue || (Array.isArray(sourceValue) && sourceValue.length === 0)) continue;
+
+        const rates = hypothesis.source === 'lineItems' ? [undefined] : taxRates;
+
+        for (const rate of rates) {
+            const action = createArithmeticRule(hypothesis.formula, hypothesis.source, rate);
+            const calculated = executeRule(action, invoice);
+
+            if (typeof calculated === 'number' && Math.abs(calculated - correctedValue) < 0.01) {
+                return { hypothesis, action, rate };
             }
         }
     }
 
-    // Hypothesis 2: Exclusive VAT (Tax = Net * 0.19)
-    if (field === 'taxAmount' && netAmount && !taxAmount) {
-        const calculated = netAmount * 0.19;
+    return null;
+}
 
-        if (Math.abs(calculated - correctedValue) < 0.01) {
-            return {
-                id: generateRuleId('exclusive_vat_19'),
-                triggerCondition: {
-                    and: [
-                        { '==': [{ var: 'taxAmount' }, 0] },
-                        { '>': [{ var: 'netAmount' }, 0] },
-                    ],
-                },
-                action: createArithmeticRule('exclusive_vat_19', 'netAmount'),
-                description: 'Calculate 19% VAT from net amount',
-                confidence: 0.90,
-                decayFactor: 0.95,
-                createdAt: getCurrentTimestamp(),
-            };
-        }
+/**
+ * Build correction memories for explained formulas
+ * Formulas with the same source and rate are merged into one rule whose
+ * additional actions set the other target fields at once
+ */
+function buildFormulaRules(matches: FormulaMatch[], invoice: Invoice): CorrectionMemory[] {
+    const groups = new Map<string, FormulaMatch[]>();
+
+    for (const match of matches) {
+        const key = `${match.hypothesis.source}|${match.rate ?? 'lines'}`;
+        groups.set(key, [...(groups.get(key) || []), match]);
     }
 
-    // Hypothesis 3: Net from Gross (Net = Total / 1.19)
-    if (field === 'netAmount' && totalAmount && !netAmount) {
-        const calculated = totalAmount / 1.19;
+    return [...groups.values()].map(group => buildFormulaRule(group, invoice));
+}
 
-        if (Math.abs(calculated - correctedValue) < 0.01) {
-            return {
-                id: generateRuleId('net_from_gross_19'),
-                triggerCondition: {
-                    and: [
-                        { '==': [{ var: 'netAmount' }, 0] },
-                        { '>': [{ var: 'totalAmount' }, 0] },
-                    ],
-                },
-                action: createArithmeticRule('net_from_gross_19', 'totalAmount'),
-                description: 'Calculate net amount from gross (19% VAT)',
-                confidence: 0.90,
-                decayFactor: 0.95,
-                createdAt: getCurrentTimestamp(),
-            };
+/**
+ * Build the correction memory for a group of explained formulas
+ * The trigger mirrors the evidence: it fires when a target is missing, or also when
+ * inconsistent if the extractor had produced a wrong value, and requires the rate to be
+ * stated in the text if it was stated in the corrected invoice
+ */
+function buildFormulaRule(group: FormulaMatch[], invoice: Invoice): CorrectionMemory {
+    const [primary, ...others] = group;
+    const { hypothesis, rate } = primary;
+    const rawText = invoice.rawText || '';
+
+    const conditions: any[] = [
+        hypothesis.source === 'lineItems'
+            ? { var: 'lineItems.0' }
+            : { '>': [{ var: hypothesis.source }, 0] },
+    ];
+
+    const targetConditions = group.map(match => targetCondition(match, invoice));
+    conditions.push(targetConditions.length === 1 ? targetConditions[0] : { or: targetConditions });
+
+    for (const cue of new Set(group.map(match => match.hypothesis.cue).filter(Boolean))) {
+        conditions.push({ regexTest: [cue, { var: 'rawText' }] });
+    }
+
+    const rateLabel = rate === undefined ? undefined : formatRate(rate);
+
+    if (rateLabel) {
+        const rateCue = `(?<![\\d.,])${rateLabel.replace('.', '[.,]')}(?:[.,]0+)?\\s*%`;
+        if (new RegExp(rateCue).test(rawText)) {
+            conditions.push({ regexTest: [rateCue, { var: 'rawText' }] });
         }
     }
 
-    return null;
+    return {
+        id: generateRuleId(rateLabel ? `${hypothesis.formula}_${rateLabel}` : hypothesis.formula),
+        triggerCondition: { and: conditions },
+        targetField: hypothesis.target,
+        action: primary.action,
+        additionalActions: others.length > 0
+            ? Object.fromEntries(others.map(match => [match.hypothesis.target, match.action]))
+            : undefined,
+        description: group.map(match => match.hypothesis.describe(rateLabel)).join('; '),
+        confidence: group.some(match => match.hypothesis.cue) ? 0.95 : 0.90,
+        decayFactor: 0.95,
+        createdAt: getCurrentTimestamp(),
+    };
+}
+
+/**
+ * Condition under which a formula should fill its target
+ */
+function targetCondition(match: FormulaMatch, invoice: Invoice): any {
+    const target = { var: match.hypothesis.target };
+
+    if (!getFieldValue(invoice, match.hypothesis.target)) {
+        return { '!': [target] };
+    }
+
+    const difference = { '-': [target, match.action] };
+    return {
+        or: [{ '!': [target] }, { '<': [difference, -0.01] }, { '>': [difference, 0.01] }],
+    };
+}
+
+function formatRate(rate: number): string {
+    return parseFloat((rate * 100).toFixed(2)).toString();
 }
 
 // =============================================================================
@@ -379,13 +597,9 @@ function induceArithmeticFormula(
 
 /**
  * Induce SKU mapping from description
+ * The rule reads the description of the line it is evaluated for
  */
-function induceMapping(
-    field: string,
-    description: string,
-    sku: string,
-    _invoice: Invoice
-): VendorPattern | null {
+function induceMapping(description: string, sku: string): VendorPattern | null {
     if (!description || !sku) return null;
 
     // Tokenize description
@@ -406,7 +620,7 @@ function induceMapping(
 
     return {
         ruleType: 'MAP',
-        logic: createMapRule(mapping, field.replace('.sku', '.description')),
+        logic: createMapRule(mapping, 'line.description'),
         confidence: 0.85,
         sampleEvidence: description,
         createdAt: getCurrentTimestamp(),
@@ -414,44 +628,365 @@ function induceMapping(
 }
 
 // =============================================================================
-// Helper Functions
+// Strategy 4: Layout Induction
+// =============================================================================
+
+/**
+ * Induce an anchor or positional rule for a value a plain regex can't isolate
+ * Candidates, in order: column below a header, Nth token after a same-line label,
+ * line below a label. The first candidate that reproduces the value wins.
+ */
+function induceLayoutRule(
+    field: string,
+    value: any,
+    variants: string[],
+    rawText: string,
+    valuePattern: string,
+    normalize: (logic: any) => any // Wraps the extraction (e.g. number parsing)
+): VendorPattern | null {
+    const lines = splitLines(rawText);
+    const example = { invoiceId: '', value, rawText, recordedAt: getCurrentTimestamp() };
+    const sorted = [...variants].sort((a, b) => b.length - a.length);
+
+    for (const variant of sorted) {
+        for (let i = 0; i < lines.length; i++) {
+            if (!lines[i].includes(variant)) continue;
+
+            for (const candidate of layoutCandidates(lines, i, variant, valuePattern)) {
+                const pattern: VendorPattern = {
+                    ...candidate,
+                    logic: normalize(candidate.logic),
+                };
+
+                if (validatePattern(field, pattern, [example])) return pattern;
+            }
+        }
+    }
+
+    return null;
+}
+
+function layoutCandidates(
+    lines: string[],
+    lineIndex: number,
+    variant: string,
+    valuePattern: string
+): VendorPattern[] {
+    const candidates: VendorPattern[] = [];
+    const line = lines[lineIndex];
+    const sampleEvidence = line.trim();
+    const createdAt = getCurrentTimestamp();
+    const hasLetters = (text: string) => /[A-Za-zÄÖÜäöüß]/.test(text);
+
+    // POSITIONAL: a header cell aligned with the value in one of the lines above
+    const cell = splitCells(line, lineIndex).find(c => c.text.includes(variant));
+    if (cell) {
+        for (let h = lineIndex - 1; h >= Math.max(0, lineIndex - 3); h--) {
+            const header = spanAtColumn(splitCells(lines[h], h), cell.start, cell.end, 0);
+            if (header && hasLetters(header.text)) {
+                candidates.push({
+                    ruleType: 'POSITIONAL',
+                    logic: createPositionalRule(labelPattern(header.text), lineIndex - h, valuePattern),
+                    confidence: 0.80,
+                    sampleEvidence: `${lines[h].trim()} / ${sampleEvidence}`,
+                    createdAt,
+                });
+                break;
+            }
+        }
+    }
+
+    // ANCHOR (token): the value is the Nth token after a label on the same line
+    const tokens = splitTokens(line, lineIndex).filter(t => /[\p{L}\p{N}]/u.test(t.text));
+    const valueIndex = tokens.findIndex(t => t.text.includes(variant));
+    const labelIndex = tokens.findIndex(t => hasLetters(t.text));
+
+    if (labelIndex !== -1 && labelIndex < valueIndex) {
+        candidates.push({
+            ruleType: 'ANCHOR',
+            logic: createAnchorRule(labelPattern(tokens[labelIndex].text), 'token', valueIndex - labelIndex, valuePattern),
+            confidence: 0.85,
+            sampleEvidence,
+            createdAt,
+        });
+    }
+
+    // ANCHOR (line): the value sits on a line below a label
+    for (let h = lineIndex - 1; h >= Math.max(0, lineIndex - 3); h--) {
+        if (hasLetters(lines[h])) {
+            candidates.push({
+                ruleType: 'ANCHOR',
+                logic: createAnchorRule(labelPattern(lines[h]), 'line', lineIndex - h, valuePattern),
+                confidence: 0.85,
+                sampleEvidence: `${lines[h].trim()} / ${sampleEvidence}`,
+                createdAt,
+            });
+            break;
+        }
+    }
+
+    return candidates;
+}
+
+function labelPattern(label: string): string {
+    const escaped = label.trim().replace(/[:\s]+$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const spaced = escaped.replace(/\s+/g, '\\s+');
+    return /^[A-Za-zÄÖÜäöüß]/.test(spaced) ? `\\b${spaced}` : spaced;
+}
+
+// =============================================================================
+// Strategy 5: Table Induction
 // =============================================================================
 
-function getFieldValue(obj: any, path: string): any {
-    const parts = path.split('/').filter(p => p);
-    let value = obj;
+const TABLE_CELL_SEPARATOR = '(?:\\s*\\t\\s*|\\s{2,})';
+const NUMBER_CELL_PATTERN = "(?:[^\\d\\s-]+\\s?)?(-?[\\d.,']*\\d)(?:\\s?[^\\d\\s]+)?";
 
-    for (const part of parts) {
-        if (value && typeof value === 'object') {
-            value = value[part];
-        } else {
-            return undefined;
+interface TableProperty {
+    name: keyof LineItem;
+    kind: 'text' | 'number' | 'code';
+}
+
+/**
+ * Line item properties in column assignment order
+ */
+const TABLE_PROPERTIES: TableProperty[] = [
+    { name: 'description', kind: 'text' },
+    { name: 'sku', kind: 'code' },
+    { name: 'quantity', kind: 'number' },
+    { name: 'unitPrice', kind: 'number' },
+    { name: 'amount', kind: 'number' },
+    { name: 'taxRate', kind: 'number' },
+];
+
+interface AssignedColumn {
+    property: TableProperty;
+    type: TableColumn[2];
+}
+
+/**
+ * Induce a TABLE rule that reproduces the corrected line items from rawText
+ * Every line item must be printed on a line of its own. Cells (split on tabs or
+ * runs of spaces) are assigned to the properties they match on every row, and the
+ * row regex is built from the cell kinds. The rule is anchored on the header line
+ * above the first row when that still reproduces all rows.
+ */
+function induceTableRule(lineItems: LineItem[], rawText: string): VendorPattern | null {
+    if (!rawText) return null;
+
+    const lines = splitLines(rawText);
+    const rows: TextSpan[][] = [];
+    let from = 0;
+
+    for (const item of lineItems) {
+        const index = lines.findIndex((line, i) => i >= from && rowMatchesItem(splitCells(line, i), item));
+        if (index === -1) return null;
+
+        rows.push(splitCells(lines[index], index));
+        from = index + 1;
+    }
+
+    // All rows must share one column structure
+    const width = rows[0].length;
+    if (rows.some(cells => cells.length !== width)) return null;
+
+    const assigned = new Map<number, AssignedColumn>();
+    for (const property of TABLE_PROPERTIES) {
+        for (let c = 0; c < width; c++) {
+            if (assigned.has(c)) continue;
+
+            const type = columnType(property, rows.map(cells => cells[c].text), lineItems);
+            if (type) {
+                assigned.set(c, { property, type });
+                break;
+            }
         }
     }
 
-    return value;
+    if (assigned.size < 2) return null;
+
+    const columns: TableColumn[] = [];
+    const parts = rows[0].map((_cell, c) => {
+        const column = assigned.get(c);
+
+        if (!column) {
+            return rows.every(cells => parseNumericCell(cells[c].text) !== null && !/[A-Za-zÄÖÜäöüß]/.test(cells[c].text))
+                ? "[-\\d.,']+"
+                : '\\S(?:.*?\\S)?';
+        }
+
+        columns.push([column.property.name, columns.length + 1, column.type]);
+        switch (column.property.kind) {
+            case 'number':
+                return NUMBER_CELL_PATTERN;
+            case 'code':
+                return '(\\S+)';
+            default:
+                return '(\\S(?:.*?\\S)?)';
+        }
+    });
+
+    const rowPattern = `^\\s*${parts.join(TABLE_CELL_SEPARATOR)}\\s*$`;
+    const firstRow = rows[0][0].line;
+    const header = findTableHeader(lines, firstRow, rowPattern);
+    const example = { invoiceId: '', value: lineItems, rawText, recordedAt: getCurrentTimestamp() };
+
+    for (const headerPattern of header ? [labelPattern(header), null] : [null]) {
+        const pattern: VendorPattern = {
+            ruleType: 'TABLE',
+            logic: createTableRule(headerPattern, rowPattern, columns),
+            confidence: 0.85,
+            sampleEvidence: [header, lines[firstRow]].filter(Boolean).map(line => line!.trim()).join(' / '),
+            createdAt: getCurrentTimestamp(),
+        };
+
+        if (validatePattern(LINE_ITEMS_FIELD, pattern, [example])) return pattern;
+    }
+
+    return null;
 }
 
-function isDateField(field: string): boolean {
-    return /date/i.test(field);
+/**
+ * A line is the row of a line item if its cells show two of the item's values
+ * (or the only one it has)
+ */
+function rowMatchesItem(cells: TextSpan[], item: LineItem): boolean {
+    const properties = TABLE_PROPERTIES.filter(p => item[p.name] !== undefined && item[p.name] !== null);
+    const matched = properties.filter(p => cells.some(cell => cellType(p, cell.text, item[p.name]) !== null));
+
+    return matched.length >= Math.min(2, properties.length) && matched.length > 0;
 }
 
-function isNumericField(field: string): boolean {
-    return /amount|price|quantity|tax|total|net/i.test(field);
+/**
+ * Column type under which every row's cell reproduces the property, or null
+ */
+function columnType(
+    property: TableProperty,
+    cells: string[],
+    lineItems: LineItem[]
+): TableColumn[2] | null {
+    const types = new Set(cells.map((cell, i) => cellType(property, cell, lineItems[i][property.name])));
+    if (types.size !== 1) return null;
+
+    return [...types][0];
+}
+
+function cellType(property: TableProperty, cell: string, value: any): TableColumn[2] | null {
+    if (value === undefined || value === null) return null;
+
+    if (property.kind !== 'number') {
+        return valuesMatch(cell, String(value)) ? 'text' : null;
+    }
+
+    const parsed = parseNumericCell(cell);
+    if (parsed === null || typeof value !== 'number') return null;
+    if (valuesMatch(parsed, value)) return 'number';
+
+    // Tax rates printed as percentages but stored as fractions
+    return property.name === 'taxRate' && valuesMatch(parsed / 100, value) ? 'percent' : null;
 }
 
-function generateDateVariants(isoDate: string): string[] {
-    const variants = [isoDate];
+/**
+ * Header line directly above the first row (blank lines skipped)
+ */
+function findTableHeader(lines: string[], firstRow: number, rowPattern: string): string | null {
+    for (let h = firstRow - 1; h >= Math.max(0, firstRow - 3); h--) {
+        if (!lines[h].trim()) continue;
+
+        const isHeader = /[A-Za-zÄÖÜäöüß]/.test(lines[h])
+            && splitCells(lines[h]).length >= 2
+            && !new RegExp(rowPattern, 'i').test(lines[h]);
+
+        return isHeader ? lines[h] : null;
+    }
+
+    return null;
+}
+
+// =============================================================================
+// Strategy 6: Default Induction
+// =============================================================================
+
+/**
+ * Vendor fields that can be learned as defaults
+ */
+const DEFAULT_FIELDS: DefaultUpdate['field'][] = ['currency', 'paymentTerms'];
+
+/**
+ * Corrections remembered per default field
+ */
+export const MAX_DEFAULT_EVIDENCE = 10;
+
+/**
+ * Agreeing corrections needed before a value becomes a default
+ */
+export const MIN_DEFAULT_CORRECTIONS = 2;
+
+/**
+ * Share of remembered corrections that must agree with a default
+ */
+export const MIN_DEFAULT_CONSISTENCY = 0.75;
+
+/**
+ * Record a corrected value as evidence for a vendor default
+ * The value is promoted once enough recent corrections agree on it; a correction
+ * contradicting the current default demotes it. Confidence is the Laplace-smoothed
+ * share of agreeing corrections.
+ */
+function induceDefault(
+    field: DefaultUpdate['field'],
+    value: string,
+    context: InductionContext
+): DefaultUpdate {
+    const vendorMemory = context.vendorMemory;
+    const current = vendorMemory?.defaults?.[field] ?? null;
+    const previous = vendorMemory?.defaultEvidence?.[field];
+
+    const values = [...(previous?.values || []), value].slice(-MAX_DEFAULT_EVIDENCE);
+    const evidence: DefaultEvidence = { values, updatedAt: getCurrentTimestamp() };
+
+    if (current !== null && current !== value) {
+        return { field, value: null, evidence, outcome: 'DEMOTED' };
+    }
 
-    // Convert ISO to German format
-    const match = isoDate.match(/(\d{4})-(\d{2})-(\d{2})/);
-    if (match) {
-        const [, year, month, day] = match;
-        variants.push(`${day}.${month}.${year}`);
-        variants.push(`${day}.${month}.${year.substring(2)}`);
+    const agreeing = values.filter(v => v === value).length;
+    if (agreeing < MIN_DEFAULT_CORRECTIONS || agreeing / values.length < MIN_DEFAULT_CONSISTENCY) {
+        return { field, value: current, evidence, outcome: 'OBSERVED' };
     }
 
-    return variants;
+    evidence.confidence = (agreeing + 1) / (values.length + 2);
+    return { field, value, evidence, outcome: current === null ? 'PROMOTED' : 'REINFORCED' };
+}
+
+/**
+ * Vendor payment terms from a corrected due date the printed terms don't explain:
+ * the net period is the days from the invoice date, discounts are the printed ones.
+ * Printed terms stating a net period are not overridden, so nothing is learned then.
+ */
+function inducePaymentTerms(dueDate: string, invoice: Invoice): PaymentTerms | null {
+    const due = normalizeDate(dueDate);
+    const date = invoice.date ? normalizeDate(invoice.date) : null;
+    if (!due || !date || due < date) return null;
+
+    const printed = parsePaymentTerms(invoice.paymentTerms || '');
+    if (printed?.netDays !== undefined) return null;
+
+    return { discounts: printed?.discounts || [], netDays: daysBetween(date, due) };
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function isLineItemField(field: string): boolean {
+    return field === LINE_ITEMS_FIELD || field.startsWith(`${LINE_ITEMS_FIELD}/`);
+}
+
+function isDateField(field: string): boolean {
+    return /date/i.test(field);
+}
+
+function isNumericField(field: string): boolean {
+    return /amount|price|quantity|tax|total|net/i.test(field);
 }
 
 function generateFieldLabels(field: string): string[] {
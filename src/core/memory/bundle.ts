@@ -0,0 +1,311 @@
+/**
+ * Knowledge Bundle
+ * Exports learned memories to a portable, versioned JSON bundle and merges
+ * bundles into another store (e.g. promoting rules from staging to production)
+ */
+
+import crypto from 'crypto';
+
+import { MemoryStore } from './store.js';
+import { patternRuleKey, ruleChanged } from './revisions.js';
+import {
+    KnowledgeBundle,
+    KnowledgeBundleSchema,
+    KNOWLEDGE_BUNDLE_VERSION,
+    MergeStrategy,
+    ImportReport,
+    VendorMemory,
+    CorrectionMemory,
+    ResolutionMemory,
+} from '../../types/index.js';
+import { getCurrentTimestamp } from '../../utils/date.js';
+
+/**
+ * Export options
+ */
+export interface ExportOptions {
+    vendors?: string[]; // Only export these vendors (by name); correction rules are always global
+    source?: string; // Label stored in the bundle, e.g. "staging"
+}
+
+/**
+ * Import options
+ */
+export interface ImportOptions {
+    strategy?: MergeStrategy; // How to resolve rules that exist on both sides (default: skip)
+    actor?: string; // Recorded on the IMPORTED rule revisions
+}
+
+/**
+ * Export vendor, correction and resolution memories as a knowledge bundle
+ * @param store Memory store to read from
+ * @param options Vendor filter and source label
+ * @returns Validated bundle
+ */
+export function exportKnowledge(store: MemoryStore, options: ExportOptions = {}): KnowledgeBundle {
+    const vendorMemories = store.getAllVendorMemories()
+        .filter(vendor => !options.vendors || options.vendors.includes(vendor.vendorName));
+    const correctionMemories = store.getAllCorrectionMemories();
+
+    // Only ship statistics of rules that travel with the bundle
+    const ruleIds = new Set<string>(correctionMemories.map(correction => correction.id));
+    for (const vendor of vendorMemories) {
+        for (const field of Object.keys(vendor.patterns)) {
+            ruleIds.add(`${vendor.id}-${field}`);
+        }
+    }
+
+    const resolutionMemories = store.getAllResolutionMemories()
+        .filter(resolution => ruleIds.has(resolution.ruleId));
+
+    return KnowledgeBundleSchema.parse({
+        bundleVersion: KNOWLEDGE_BUNDLE_VERSION,
+        schemaVersion: store.getSchemaStatus().currentVersion,
+        exportedAt: getCurrentTimestamp(),
+        source: options.source,
+        vendorMemories,
+        correctionMemories,
+        resolutionMemories,
+    });
+}
+
+/**
+ * Merge a knowledge bundle into a store
+ * Vendors are matched by name; rules present on both sides are resolved by the strategy
+ * and reported as conflicts. The import is atomic.
+ * @param store Memory store to write to
+ * @param input Bundle (validated against KnowledgeBundleSchema)
+ * @param options Merge strategy and actor
+ * @returns Import report with per vendor/field conflicts
+ */
+export function importKnowledge(
+    store: MemoryStore,
+    input: unknown,
+    options: ImportOptions = {}
+): ImportReport {
+    const bundle = KnowledgeBundleSchema.parse(input);
+
+    const importer = new BundleImporter(store, options);
+    store.transaction(() => importer.run(bundle));
+
+    return importer.report;
+}
+
+// =============================================================================
+// Importer
+// =============================================================================
+
+class BundleImporter {
+    readonly report: ImportReport;
+    private strategy: MergeStrategy;
+    private vendorIds = new Map<string, string>(); // bundle vendor id -> local vendor id
+    private adoptedRules = new Set<string>(); // Resolution ids whose rule now comes from the bundle
+    private keptRules = new Set<string>(); // Resolution ids whose local rule won a conflict
+
+    constructor(private store: MemoryStore, private options: ImportOptions) {
+        this.strategy = options.strategy || 'skip';
+        this.report = {
+            strategy: this.strategy,
+            vendorsCreated: 0,
+            vendorsMerged: 0,
+            patternsImported: 0,
+            correctionsImported: 0,
+            resolutionsImported: 0,
+            conflicts: [],
+        };
+    }
+
+    run(bundle: KnowledgeBundle): void {
+        for (const vendor of bundle.vendorMemories) {
+            this.importVendor(vendor);
+        }
+
+        for (const correction of bundle.correctionMemories) {
+            this.importCorrection(correction);
+        }
+
+        for (const resolution of bundle.resolutionMemories) {
+            this.importResolution(resolution);
+        }
+    }
+
+    private importVendor(incoming: VendorMemory): void {
+        const existing = this.store.findVendorByName(incoming.vendorName);
+
+        if (!existing) {
+            // Keep the bundle id unless it is taken locally
+            const id = this.store.getVendorMemory(incoming.id)
+                ? crypto.randomBytes(16).toString('hex')
+                : incoming.id;
+
+            this.vendorIds.set(incoming.id, id);
+            this.store.saveVendorMemory({ ...incoming, id });
+
+            for (const [field, pattern] of Object.entries(incoming.patterns)) {
+                this.recordPatternImport(id, field, null, pattern);
+            }
+
+            this.report.vendorsCreated++;
+            return;
+        }
+
+        this.vendorIds.set(incoming.id, existing.id);
+
+        const merged: VendorMemory = {
+            ...existing,
+            fingerprints: [...new Set([...existing.fingerprints, ...incoming.fingerprints])],
+            defaults: { ...existing.defaults },
+            defaultEvidence: { ...existing.defaultEvidence },
+            patterns: { ...existing.patterns },
+            updatedAt: getCurrentTimestamp(),
+        };
+
+        for (const [key, value] of Object.entries(incoming.defaults || {})) {
+            const current = (merged.defaults as any)[key];
+
+            const evidence = incoming.defaultEvidence?.[key];
+
+            if (current === undefined) {
+                (merged.defaults as any)[key] = value;
+                if (evidence) merged.defaultEvidence![key] = evidence;
+            } else if (current !== value) {
+                // Defaults have no comparable track record: only "overwrite" replaces them
+                const takeIncoming = this.strategy === 'overwrite';
+                if (takeIncoming) {
+                    (merged.defaults as any)[key] = value;
+                    if (evidence) merged.defaultEvidence![key] = evidence;
+                }
+
+                this.report.conflicts.push({
+                    kind: 'VENDOR_DEFAULT',
+                    vendor: existing.vendorName,
+                    field: key,
+                    resolution: takeIncoming ? 'IMPORTED' : 'KEPT_EXISTING',
+                });
+            }
+        }
+
+        for (const [field, pattern] of Object.entries(incoming.patterns)) {
+            const current = merged.patterns[field];
+            const resolutionId = `${existing.id}-${field}`;
+
+            if (current && !ruleChanged('VENDOR_PATTERN', current, pattern)) continue;
+
+            if (current) {
+                const takeIncoming = this.takeIncoming(current.confidence, pattern.confidence);
+
+                this.report.conflicts.push({
+                    kind: 'VENDOR_PATTERN',
+                    vendor: existing.vendorName,
+                    field,
+                    existingConfidence: current.confidence,
+                    incomingConfidence: pattern.confidence,
+                    resolution: takeIncoming ? 'IMPORTED' : 'KEPT_EXISTING',
+                });
+
+                if (!takeIncoming) {
+                    this.keptRules.add(resolutionId);
+                    continue;
+                }
+            }
+
+            merged.patterns[field] = pattern;
+            this.recordPatternImport(existing.id, field, current || null, pattern);
+        }
+
+        this.store.saveVendorMemory(merged);
+        this.report.vendorsMerged++;
+    }
+
+    private importCorrection(incoming: CorrectionMemory): void {
+        const existing = this.store.getCorrectionMemory(incoming.id);
+
+        if (existing && !ruleChanged('CORRECTION_RULE', existing, incoming)) return;
+
+        if (existing) {
+            const takeIncoming = this.takeIncoming(existing.confidence, incoming.confidence);
+
+            this.report.conflicts.push({
+                kind: 'CORRECTION_RULE',
+                ruleId: incoming.id,
+                field: incoming.targetField,
+                existingConfidence: existing.confidence,
+                incomingConfidence: incoming.confidence,
+                resolution: takeIncoming ? 'IMPORTED' : 'KEPT_EXISTING',
+            });
+
+            if (!takeIncoming) {
+                this.keptRules.add(incoming.id);
+                return;
+            }
+        }
+
+        this.store.saveCorrectionMemory(incoming);
+        this.store.recordRuleRevision({
+            ruleKind: 'CORRECTION_RULE',
+            ruleKey: incoming.id,
+            source: 'IMPORTED',
+            actor: this.options.actor,
+            previousRule: existing,
+            rule: incoming,
+            createdAt: getCurrentTimestamp(),
+        });
+
+        this.adoptedRules.add(incoming.id);
+        this.report.correctionsImported++;
+    }
+
+    /**
+     * Statistics follow their rule: imported rules bring their track record,
+     * local rules that won a conflict keep theirs
+     */
+    private importResolution(incoming: ResolutionMemory): void {
+        const ruleId = this.localRuleId(incoming.ruleId);
+        if (this.keptRules.has(ruleId)) return;
+
+        const existing = this.store.getResolutionMemory(ruleId);
+        if (!this.adoptedRules.has(ruleId) && existing.totalApplications > 0) return;
+
+        this.store.saveResolutionMemory({ ...incoming, ruleId });
+        this.report.resolutionsImported++;
+    }
+
+    private recordPatternImport(vendorId: string, field: string, previous: any, pattern: any): void {
+        this.store.recordRuleRevision({
+            ruleKind: 'VENDOR_PATTERN',
+            ruleKey: patternRuleKey(vendorId, field),
+            source: 'IMPORTED',
+            actor: this.options.actor,
+            previousRule: previous,
+            rule: pattern,
+            createdAt: getCurrentTimestamp(),
+        });
+
+        this.adoptedRules.add(`${vendorId}-${field}`);
+        this.report.patternsImported++;
+    }
+
+    private takeIncoming(existingConfidence: number, incomingConfidence: number): boolean {
+        switch (this.strategy) {
+            case 'overwrite':
+                return true;
+            case 'keep-higher-confidence':
+                return incomingConfidence > existingConfidence;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Vendor pattern statistics are keyed by vendor id, which differs between stores
+     */
+    private localRuleId(ruleId: string): string {
+        for (const [bundleId, localId] of this.vendorIds.entries()) {
+            if (ruleId.startsWith(`${bundleId}-`)) {
+                return `${localId}${ruleId.slice(bundleId.length)}`;
+            }
+        }
+
+        return ruleId;
+    }
+}
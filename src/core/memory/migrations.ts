@@ -0,0 +1,436 @@
+/**
+ * Memory Schema Migrations
+ * Ordered, versioned up-migrations for the SQLite memory store
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+import { getCurrentTimestamp } from '../../utils/date.js';
+import { normalizeInvoiceNumber, normalizeVendorName } from '../../utils/fuzzy.js';
+
+/**
+ * A single schema migration
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    up: (db: Database.Database) => void;
+}
+
+/**
+ * Options for running migrations
+ */
+export interface MigrationOptions {
+    dryRun?: boolean; // Apply inside a transaction that is rolled back
+    backupPath?: string; // Copy the database here before migrating
+}
+
+/**
+ * Result of a migration run
+ */
+export interface MigrationReport {
+    fromVersion: number;
+    toVersion: number;
+    applied: Array<{ version: number; name: string }>;
+    dryRun: boolean;
+    backupPath?: string;
+}
+
+/**
+ * All migrations in ascending version order
+ * Never edit a released migration: add a new one instead
+ */
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        name: 'baseline_memory_tables',
+        up: db => {
+            db.exec(`
+      CREATE TABLE IF NOT EXISTS vendor_memories (
+        id TEXT PRIMARY KEY,
+        vendor_name TEXT NOT NULL,
+        fingerprints TEXT NOT NULL, -- JSON array
+        defaults TEXT, -- JSON object
+        patterns TEXT NOT NULL, -- JSON object
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_vendor_name ON vendor_memories(vendor_name);
+
+      CREATE TABLE IF NOT EXISTS correction_memories (
+        id TEXT PRIMARY KEY,
+        trigger_condition TEXT NOT NULL, -- JSON object
+        action TEXT NOT NULL, -- JSON object
+        description TEXT NOT NULL,
+        confidence REAL NOT NULL,
+        decay_factor REAL DEFAULT 0.95,
+        created_at TEXT NOT NULL,
+        last_used TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS resolution_memories (
+        rule_id TEXT PRIMARY KEY,
+        total_applications INTEGER DEFAULT 0,
+        accepted_count INTEGER DEFAULT 0,
+        rejected_count INTEGER DEFAULT 0,
+        last_used TEXT,
+        history TEXT NOT NULL -- JSON array
+      );
+
+      CREATE TABLE IF NOT EXISTS processed_invoices (
+        fingerprint TEXT PRIMARY KEY,
+        invoice_id TEXT NOT NULL,
+        vendor TEXT NOT NULL,
+        invoice_number TEXT NOT NULL,
+        total_amount REAL,
+        processed_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_invoice_id ON processed_invoices(invoice_id);
+    `);
+        },
+    },
+    {
+        version: 2,
+        name: 'correction_target_fields',
+        up: db => {
+            addColumnIfMissing(db, 'correction_memories', 'target_field', 'TEXT');
+            addColumnIfMissing(db, 'correction_memories', 'additional_actions', 'TEXT');
+
+            // Backfill rules learned before targets were stored explicitly
+            const legacyRows = db
+                .prepare('SELECT id, action FROM correction_memories WHERE target_field IS NULL')
+                .all() as any[];
+            const update = db.prepare('UPDATE correction_memories SET target_field = ? WHERE id = ?');
+
+            for (const row of legacyRows) {
+                update.run(inferLegacyTargetField(row.id, JSON.parse(row.action)), row.id);
+            }
+        },
+    },
+    {
+        version: 3,
+        name: 'rule_revisions',
+        up: db => {
+            db.exec(`
+      CREATE TABLE IF NOT EXISTS rule_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        rule_kind TEXT NOT NULL, -- VENDOR_PATTERN | CORRECTION_RULE
+        rule_key TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        source TEXT NOT NULL, -- LEARNED | ROLLBACK
+        invoice_id TEXT,
+        actor TEXT,
+        diff TEXT, -- JSON Patch
+        previous_rule TEXT, -- JSON object
+        rule TEXT NOT NULL, -- JSON object
+        restored_revision INTEGER,
+        created_at TEXT NOT NULL,
+        UNIQUE (rule_kind, rule_key, revision)
+      );
+    `);
+        },
+    },
+    {
+        version: 4,
+        name: 'correction_disabled_flag',
+        up: db => {
+            addColumnIfMissing(db, 'correction_memories', 'disabled', 'INTEGER DEFAULT 0');
+        },
+    },
+    {
+        version: 5,
+        name: 'processing_runs',
+        up: db => {
+            db.exec(`
+      CREATE TABLE IF NOT EXISTS processing_runs (
+        run_id TEXT PRIMARY KEY,
+        invoice_id TEXT NOT NULL,
+        invoice TEXT NOT NULL, -- JSON object
+        proposals TEXT NOT NULL, -- JSON object: field -> FieldConfidence
+        output TEXT NOT NULL, -- JSON OutputContract
+        created_at TEXT NOT NULL,
+        corrected_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_runs_invoice_id ON processing_runs(invoice_id, created_at);
+    `);
+        },
+    },
+    {
+        version: 6,
+        name: 'line_item_pattern_keys',
+        up: db => {
+            // SKU mappings were keyed by line index ("lineItems/0/sku"); they now apply to every line
+            const rows = db.prepare('SELECT id, patterns FROM vendor_memories').all() as any[];
+            const update = db.prepare('UPDATE vendor_memories SET patterns = ? WHERE id = ?');
+
+            for (const row of rows) {
+                const patterns = JSON.parse(row.patterns);
+                let changed = false;
+
+                for (const [field, pattern] of Object.entries<any>(patterns)) {
+                    const match = field.match(/^lineItems\/\d+\/(\w+)$/);
+                    if (!match || !pattern.logic?.mapDescription) continue;
+
+                    const key = `lineItems/*/${match[1]}`;
+                    const mapping = {
+                        ...patterns[key]?.logic?.mapDescription?.[1],
+                        ...pattern.logic.mapDescription[1],
+                    };
+
+                    patterns[key] = {
+                        ...pattern,
+                        logic: { mapDescription: [{ var: 'line.description' }, mapping] },
+                    };
+                    delete patterns[field];
+                    changed = true;
+                }
+
+                if (changed) update.run(JSON.stringify(patterns), row.id);
+            }
+        },
+    },
+    {
+        version: 7,
+        name: 'vendor_default_evidence',
+        up: db => {
+            addColumnIfMissing(db, 'vendor_memories', 'default_evidence', 'TEXT'); // JSON object
+        },
+    },
+    {
+        version: 8,
+        name: 'purchase_orders',
+        up: db => {
+            db.exec(`
+      CREATE TABLE IF NOT EXISTS purchase_orders (
+        po_number TEXT PRIMARY KEY,
+        vendor TEXT NOT NULL,
+        po_date TEXT NOT NULL,
+        currency TEXT,
+        line_items TEXT NOT NULL, -- JSON array
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_po_vendor ON purchase_orders(vendor COLLATE NOCASE);
+
+      CREATE TABLE IF NOT EXISTS goods_receipts (
+        receipt_id TEXT PRIMARY KEY,
+        po_number TEXT NOT NULL,
+        received_at TEXT NOT NULL,
+        line_items TEXT NOT NULL, -- JSON array
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_receipts_po_number ON goods_receipts(po_number);
+    `);
+        },
+    },
+    {
+        version: 9,
+        name: 'processed_invoice_matching',
+        up: db => {
+            addColumnIfMissing(db, 'processed_invoices', 'normalized_number', 'TEXT');
+            addColumnIfMissing(db, 'processed_invoices', 'invoice_date', 'TEXT');
+
+            const rows = db.prepare('SELECT fingerprint, invoice_number FROM processed_invoices').all() as any[];
+            const update = db.prepare('UPDATE processed_invoices SET normalized_number = ? WHERE fingerprint = ?');
+            for (const row of rows) {
+                update.run(normalizeInvoiceNumber(row.invoice_number), row.fingerprint);
+            }
+
+            db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_processed_normalized_number ON processed_invoices(normalized_number);
+      CREATE INDEX IF NOT EXISTS idx_processed_total_amount ON processed_invoices(total_amount);
+    `);
+        },
+    },
+    {
+        version: 10,
+        name: 'processing_run_losing_candidates',
+        up: db => {
+            addColumnIfMissing(db, 'processing_runs', 'losing_candidates', 'TEXT'); // JSON array
+        },
+    },
+    {
+        version: 11,
+        name: 'processing_run_approvals',
+        up: db => {
+            addColumnIfMissing(db, 'processing_runs', 'approved_invoice', 'TEXT'); // JSON object
+        },
+    },
+    {
+        version: 12,
+        name: 'processed_invoice_profiles',
+        up: db => {
+            addColumnIfMissing(db, 'processed_invoices', 'vendor_id', 'TEXT');
+            addColumnIfMissing(db, 'processed_invoices', 'normalized_vendor', 'TEXT');
+            addColumnIfMissing(db, 'processed_invoices', 'profile', 'TEXT'); // JSON object
+
+            const rows = db.prepare('SELECT fingerprint, vendor FROM processed_invoices').all() as any[];
+            const update = db.prepare('UPDATE processed_invoices SET normalized_vendor = ? WHERE fingerprint = ?');
+            for (const row of rows) {
+                update.run(normalizeVendorName(row.vendor), row.fingerprint);
+            }
+
+            db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_processed_vendor_id ON processed_invoices(vendor_id);
+      CREATE INDEX IF NOT EXISTS idx_processed_normalized_vendor ON processed_invoices(normalized_vendor);
+    `);
+        },
+    },
+    {
+        version: 13,
+        name: 'vendor_date_order',
+        up: db => {
+            addColumnIfMissing(db, 'vendor_memories', 'date_order', 'TEXT'); // DMY or MDY
+        },
+    },
+    {
+        version: 14,
+        name: 'vendor_payment_terms',
+        up: db => {
+            addColumnIfMissing(db, 'vendor_memories', 'payment_terms', 'TEXT'); // JSON object
+        },
+    },
+];
+
+/**
+ * Latest schema version known to this build
+ */
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Read the current schema version (0 for a new or pre-versioning database)
+ */
+export function getSchemaVersion(db: Database.Database): number {
+    ensureVersionTable(db);
+    const row = db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as any;
+    return row?.version ?? 0;
+}
+
+/**
+ * List migrations not yet applied to the database
+ */
+export function getPendingMigrations(db: Database.Database): Migration[] {
+    const current = getSchemaVersion(db);
+    return MIGRATIONS.filter(migration => migration.version > current);
+}
+
+/**
+ * Apply all pending migrations in order within a single transaction
+ * @param db Open database
+ * @param options Dry-run and backup options
+ * @returns Report of applied (or, in dry-run mode, applicable) migrations
+ */
+export function runMigrations(
+    db: Database.Database,
+    options: MigrationOptions = {}
+): MigrationReport {
+    const fromVersion = getSchemaVersion(db);
+
+    if (fromVersion > LATEST_SCHEMA_VERSION) {
+        throw new Error(
+            `Memory database schema version ${fromVersion} is newer than this build supports (${LATEST_SCHEMA_VERSION})`
+        );
+    }
+
+    const pending = MIGRATIONS.filter(migration => migration.version > fromVersion);
+    const report: MigrationReport = {
+        fromVersion,
+        toVersion: pending.length > 0 ? pending[pending.length - 1].version : fromVersion,
+        applied: pending.map(({ version, name }) => ({ version, name })),
+        dryRun: options.dryRun === true,
+    };
+
+    if (pending.length === 0) return report;
+
+    if (options.backupPath && !options.dryRun && hasUserTables(db)) {
+        backupDatabase(db, options.backupPath);
+        report.backupPath = options.backupPath;
+    }
+
+    const insertVersion = db.prepare(
+        'INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)'
+    );
+
+    db.exec('BEGIN');
+    try {
+        for (const migration of pending) {
+            migration.up(db);
+            insertVersion.run(migration.version, migration.name, getCurrentTimestamp());
+        }
+    } catch (error) {
+        db.exec('ROLLBACK');
+        throw error;
+    }
+
+    // A dry run proves the migrations apply cleanly without keeping them
+    db.exec(options.dryRun ? 'ROLLBACK' : 'COMMIT');
+
+    return report;
+}
+
+/**
+ * Build the default backup path next to a database file
+ * e.g. database/memory.db -> database/memory-backup-v1-20240101T120000.db
+ */
+export function defaultBackupPath(dbPath: string, fromVersion: number): string {
+    const stamp = getCurrentTimestamp().replace(/[-:]/g, '').replace(/\..*$/, '');
+    const ext = path.extname(dbPath);
+    const base = dbPath.slice(0, dbPath.length - ext.length);
+    return `${base}-backup-v${fromVersion}-${stamp}${ext || '.db'}`;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function ensureVersionTable(db: Database.Database): void {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      );
+    `);
+}
+
+function hasUserTables(db: Database.Database): boolean {
+    const row = db
+        .prepare(`SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table' AND name != 'schema_version'`)
+        .get() as any;
+    return row.count > 0;
+}
+
+function backupDatabase(db: Database.Database, backupPath: string): void {
+    fs.mkdirSync(path.dirname(backupPath), { recursive: true });
+    db.prepare('VACUUM INTO ?').run(backupPath);
+}
+
+function addColumnIfMissing(
+    db: Database.Database,
+    table: string,
+    column: string,
+    definition: string
+): void {
+    const columns = (db.prepare(`PRAGMA table_info(${table})`).all() as any[])
+        .map(info => info.name);
+
+    if (!columns.includes(column)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+}
+
+/**
+ * Infer the target field of a correction memory stored without one
+ * Formula ids name their target; otherwise fall back to the field the action mentions
+ */
+function inferLegacyTargetField(id: string, action: any): string {
+    if (/^(inclusive_vat|exclusive_vat|line_item_vat)/.test(id)) return 'taxAmount';
+    if (/^net_from_gross/.test(id)) return 'netAmount';
+    if (/^(gross_from_net|line_item_gross)/.test(id)) return 'totalAmount';
+
+    const actionStr = JSON.stringify(action);
+    if (actionStr.includes('taxAmount')) return 'taxAmount';
+    if (actionStr.includes('netAmount')) return 'netAmount';
+    return 'totalAmount';
+}
@@ -0,0 +1,28 @@
+/**
+ * Rule Revision Helpers
+ * Keys and change detection shared by learning, rollback and knowledge import
+ */
+
+import { RuleKind } from '../../types/index.js';
+
+/**
+ * Revision key of a vendor pattern
+ */
+export function patternRuleKey(vendorId: string, field: string): string {
+    return `${vendorId}:${field}`;
+}
+
+/**
+ * Whether a rule differs from the stored one in anything but its evidence
+ */
+export function ruleChanged(ruleKind: RuleKind, previous: any, next: any): boolean {
+    if (!previous) return true;
+
+    const signature = (rule: any) => JSON.stringify(
+        ruleKind === 'VENDOR_PATTERN'
+            ? [rule.ruleType, rule.logic]
+            : [rule.triggerCondition, rule.targetField, rule.action, rule.additionalActions]
+    );
+
+    return signature(previous) !== signature(next);
+}
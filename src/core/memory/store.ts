@@ -10,82 +10,113 @@ import {
     VendorMemory,
     CorrectionMemory,
     ResolutionMemory,
+    RuleRevision,
+    RuleKind,
+    ProcessingRun,
+    PurchaseOrder,
+    GoodsReceipt,
+    ProcessedInvoice,
+    InvoiceProfile,
+    Invoice,
 } from '../../types/index.js';
 
 import { getCurrentTimestamp } from '../../utils/date.js';
+import { normalizeInvoiceNumber, normalizeVendorName } from '../../utils/fuzzy.js';
+import {
+    MigrationReport,
+    runMigrations,
+    getSchemaVersion,
+    getPendingMigrations,
+    defaultBackupPath,
+    LATEST_SCHEMA_VERSION,
+} from './migrations.js';
 import crypto from 'crypto';
 
 
 
+/**
+ * Memory store configuration
+ */
+export interface MemoryStoreOptions {
+    autoMigrate?: boolean; // Apply pending schema migrations on open (default: true)
+    backupBeforeMigrate?: boolean; // Copy the database file before migrating (default: true)
+}
+
 /**
  * Memory Store class for SQLite operations
  */
 export class MemoryStore {
     private db: Database.Database;
+    private dbPath: string;
 
-    constructor(dbPath?: string) {
+    /**
+     * @param dbPath Database file, or a serialized database to open in memory (see snapshot)
+     */
+    constructor(dbPath?: string | Buffer, private options: MemoryStoreOptions = {}) {
         const defaultPath = path.join(process.cwd(), 'database', 'memory.db');
-        this.db = new Database(dbPath || defaultPath);
-        this.db.pragma('journal_mode = WAL'); // Write-Ahead Logging for better performance
+
+        if (Buffer.isBuffer(dbPath)) {
+            this.dbPath = ':memory:';
+            this.db = new Database(dbPath);
+        } else {
+            this.dbPath = dbPath || defaultPath;
+            this.db = new Database(this.dbPath);
+            this.db.pragma('journal_mode = WAL'); // Write-Ahead Logging for better performance
+        }
+
         this.initialize();
     }
 
+    /**
+     * Copy the whole memory into an independent in-memory store
+     * Writes to the copy never reach this database
+     */
+    snapshot(): MemoryStore {
+        const image = this.db.serialize();
+
+        // In-memory databases cannot use WAL: mark the image as rollback-journal (file format 1)
+        image[18] = 1;
+        image[19] = 1;
+
+        return new MemoryStore(image, { backupBeforeMigrate: false });
+    }
+
     /**
      * Initialize database schema
+     * Brings the schema up to date unless auto-migration is disabled
      */
     private initialize(): void {
-        // Vendor Memories Table
-        this.db.exec(`
-      CREATE TABLE IF NOT EXISTS vendor_memories (
-        id TEXT PRIMARY KEY,
-        vendor_name TEXT NOT NULL,
-        fingerprints TEXT NOT NULL, -- JSON array
-        defaults TEXT, -- JSON object
-        patterns TEXT NOT NULL, -- JSON object
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-      CREATE INDEX IF NOT EXISTS idx_vendor_name ON vendor_memories(vendor_name);
-    `);
+        if (this.options.autoMigrate === false) return;
+        this.migrate();
+    }
 
-        // Correction Memories Table
-        this.db.exec(`
-      CREATE TABLE IF NOT EXISTS correction_memories (
-        id TEXT PRIMARY KEY,
-        trigger_condition TEXT NOT NULL, -- JSON object
-        action TEXT NOT NULL, -- JSON object
-        description TEXT NOT NULL,
-        confidence REAL NOT NULL,
-        decay_factor REAL DEFAULT 0.95,
-        created_at TEXT NOT NULL,
-        last_used TEXT
-      );
-    `);
+    /**
+     * Apply pending schema migrations
+     * @param options dryRun: validate and report without changing the database
+     * @returns Migration report
+     */
+    migrate(options: { dryRun?: boolean } = {}): MigrationReport {
+        const fromVersion = getSchemaVersion(this.db);
+        const backupPath = this.options.backupBeforeMigrate !== false && this.isFileDatabase()
+            ? defaultBackupPath(this.dbPath, fromVersion)
+            : undefined;
 
-        // Resolution Memories Table
-        this.db.exec(`
-      CREATE TABLE IF NOT EXISTS resolution_memories (
-        rule_id TEXT PRIMARY KEY,
-        total_applications INTEGER DEFAULT 0,
-        accepted_count INTEGER DEFAULT 0,
-        rejected_count INTEGER DEFAULT 0,
-        last_used TEXT,
-        history TEXT NOT NULL -- JSON array
-      );
-    `);
+        return runMigrations(this.db, { dryRun: options.dryRun, backupPath });
+    }
 
-        // Processed Invoices Table (for duplicate detection)
-        this.db.exec(`
-      CREATE TABLE IF NOT EXISTS processed_invoices (
-        fingerprint TEXT PRIMARY KEY,
-        invoice_id TEXT NOT NULL,
-        vendor TEXT NOT NULL,
-        invoice_number TEXT NOT NULL,
-        total_amount REAL,
-        processed_at TEXT NOT NULL
-      );
-      CREATE INDEX IF NOT EXISTS idx_invoice_id ON processed_invoices(invoice_id);
-    `);
+    /**
+     * Get current and latest schema versions
+     */
+    getSchemaStatus(): { currentVersion: number; latestVersion: number; pending: string[] } {
+        return {
+            currentVersion: getSchemaVersion(this.db),
+            latestVersion: LATEST_SCHEMA_VERSION,
+            pending: getPendingMigrations(this.db).map(m => `${m.version}_${m.name}`),
+        };
+    }
+
+    private isFileDatabase(): boolean {
+        return this.dbPath !== ':memory:' && this.dbPath !== '';
     }
 
     // =========================================================================
@@ -98,8 +129,8 @@ export class MemoryStore {
     saveVendorMemory(memory: VendorMemory): void {
         const stmt = this.db.prepare(`
       INSERT OR REPLACE INTO vendor_memories
-      (id, vendor_name, fingerprints, defaults, patterns, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      (id, vendor_name, fingerprints, defaults, default_evidence, date_order, payment_terms, patterns, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
         stmt.run(
@@ -107,6 +138,9 @@ export class MemoryStore {
             memory.vendorName,
             JSON.stringify(memory.fingerprints),
             JSON.stringify(memory.defaults || {}),
+            memory.defaultEvidence ? JSON.stringify(memory.defaultEvidence) : null,
+            memory.dateOrder || null,
+            memory.paymentTerms ? JSON.stringify(memory.paymentTerms) : null,
             JSON.stringify(memory.patterns),
             memory.createdAt,
             memory.updatedAt
@@ -166,6 +200,9 @@ export class MemoryStore {
             vendorName: row.vendor_name,
             fingerprints: JSON.parse(row.fingerprints),
             defaults: JSON.parse(row.defaults || '{}'),
+            defaultEvidence: row.default_evidence ? JSON.parse(row.default_evidence) : undefined,
+            dateOrder: row.date_order || undefined,
+            paymentTerms: row.payment_terms ? JSON.parse(row.payment_terms) : undefined,
             patterns: JSON.parse(row.patterns),
             createdAt: row.created_at,
             updatedAt: row.updated_at,
@@ -182,17 +219,20 @@ export class MemoryStore {
     saveCorrectionMemory(memory: CorrectionMemory): void {
         const stmt = this.db.prepare(`
       INSERT OR REPLACE INTO correction_memories
-      (id, trigger_condition, action, description, confidence, decay_factor, created_at, last_used)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      (id, trigger_condition, target_field, action, additional_actions, description, confidence, decay_factor, disabled, created_at, last_used)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
         stmt.run(
             memory.id,
             JSON.stringify(memory.triggerCondition),
+            memory.targetField,
             JSON.stringify(memory.action),
+            memory.additionalActions ? JSON.stringify(memory.additionalActions) : null,
             memory.description,
             memory.confidence,
             memory.decayFactor,
+            memory.disabled ? 1 : 0,
             memory.createdAt,
             memory.lastUsed || null
         );
@@ -205,16 +245,43 @@ export class MemoryStore {
         const stmt = this.db.prepare('SELECT * FROM correction_memories');
         const rows = stmt.all() as any[];
 
-        return rows.map(row => ({
+        return rows.map(row => this.parseCorrectionMemory(row));
+    }
+
+    /**
+     * Get correction memory by ID
+     */
+    getCorrectionMemory(id: string): CorrectionMemory | null {
+        const stmt = this.db.prepare('SELECT * FROM correction_memories WHERE id = ?');
+        const row = stmt.get(id) as any;
+
+        if (!row) return null;
+
+        return this.parseCorrectionMemory(row);
+    }
+
+    private parseCorrectionMemory(row: any): CorrectionMemory {
+        return {
             id: row.id,
             triggerCondition: JSON.parse(row.trigger_condition),
+            targetField: row.target_field,
             action: JSON.parse(row.action),
+            additionalActions: row.additional_actions ? JSON.parse(row.additional_actions) : undefined,
             description: row.description,
             confidence: row.confidence,
             decayFactor: row.decay_factor,
+            disabled: row.disabled ? true : undefined,
             createdAt: row.created_at,
-            lastUsed: row.last_used,
-        }));
+            lastUsed: row.last_used ?? undefined,
+        };
+    }
+
+    /**
+     * Delete correction memory
+     */
+    deleteCorrectionMemory(id: string): void {
+        const stmt = this.db.prepare('DELETE FROM correction_memories WHERE id = ?');
+        stmt.run(id);
     }
 
     /**
@@ -225,6 +292,87 @@ export class MemoryStore {
         stmt.run(getCurrentTimestamp(), id);
     }
 
+    // =========================================================================
+    // Rule Revision Operations
+    // =========================================================================
+
+    /**
+     * Append an immutable revision to a rule's history
+     * The revision number is assigned here (previous latest + 1)
+     * @returns Stored revision
+     */
+    recordRuleRevision(revision: Omit<RuleRevision, 'revision'>): RuleRevision {
+        const latest = this.db
+            .prepare('SELECT MAX(revision) AS revision FROM rule_revisions WHERE rule_kind = ? AND rule_key = ?')
+            .get(revision.ruleKind, revision.ruleKey) as any;
+
+        const stored: RuleRevision = { ...revision, revision: (latest?.revision ?? 0) + 1 };
+
+        const stmt = this.db.prepare(`
+      INSERT INTO rule_revisions
+      (rule_kind, rule_key, revision, source, invoice_id, actor, diff, previous_rule, rule, restored_revision, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+        stmt.run(
+            stored.ruleKind,
+            stored.ruleKey,
+            stored.revision,
+            stored.source,
+            stored.invoiceId || null,
+            stored.actor || null,
+            stored.diff ? JSON.stringify(stored.diff) : null,
+            stored.previousRule ? JSON.stringify(stored.previousRule) : null,
+            JSON.stringify(stored.rule),
+            stored.restoredRevision ?? null,
+            stored.createdAt
+        );
+
+        return stored;
+    }
+
+    /**
+     * Get all revisions of a rule, oldest first
+     */
+    getRuleRevisions(ruleKind: RuleKind, ruleKey: string): RuleRevision[] {
+        const stmt = this.db.prepare(
+            'SELECT * FROM rule_revisions WHERE rule_kind = ? AND rule_key = ? ORDER BY revision'
+        );
+        const rows = stmt.all(ruleKind, ruleKey) as any[];
+
+        return rows.map(row => this.parseRuleRevision(row));
+    }
+
+    /**
+     * Get a single revision of a rule
+     */
+    getRuleRevision(ruleKind: RuleKind, ruleKey: string, revision: number): RuleRevision | null {
+        const stmt = this.db.prepare(
+            'SELECT * FROM rule_revisions WHERE rule_kind = ? AND rule_key = ? AND revision = ?'
+        );
+        const row = stmt.get(ruleKind, ruleKey, revision) as any;
+
+        if (!row) return null;
+
+        return this.parseRuleRevision(row);
+    }
+
+    private parseRuleRevision(row: any): RuleRevision {
+        return {
+            ruleKind: row.rule_kind,
+            ruleKey: row.rule_key,
+            revision: row.revision,
+            source: row.source,
+            invoiceId: row.invoice_id ?? undefined,
+            actor: row.actor ?? undefined,
+            diff: row.diff ? JSON.parse(row.diff) : undefined,
+            previousRule: row.previous_rule ? JSON.parse(row.previous_rule) : null,
+            rule: JSON.parse(row.rule),
+            restoredRevision: row.restored_revision ?? undefined,
+            createdAt: row.created_at,
+        };
+    }
+
     // =========================================================================
     // Resolution Memory Operations
     // =========================================================================
@@ -267,12 +415,26 @@ export class MemoryStore {
             };
         }
 
+        return this.parseResolutionMemory(row);
+    }
+
+    /**
+     * Get all stored resolution memories
+     */
+    getAllResolutionMemories(): ResolutionMemory[] {
+        const stmt = this.db.prepare('SELECT * FROM resolution_memories');
+        const rows = stmt.all() as any[];
+
+        return rows.map(row => this.parseResolutionMemory(row));
+    }
+
+    private parseResolutionMemory(row: any): ResolutionMemory {
         return {
             ruleId: row.rule_id,
             totalApplications: row.total_applications,
             acceptedCount: row.accepted_count,
             rejectedCount: row.rejected_count,
-            lastUsed: row.last_used,
+            lastUsed: row.last_used ?? undefined,
             history: JSON.parse(row.history),
         };
     }
@@ -309,6 +471,195 @@ export class MemoryStore {
         this.saveResolutionMemory(memory);
     }
 
+    // =========================================================================
+    // Processing Runs
+    // =========================================================================
+
+    /**
+     * Save a processing run
+     */
+    saveProcessingRun(run: ProcessingRun): void {
+        const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO processing_runs
+      (run_id, invoice_id, invoice, proposals, losing_candidates, output, created_at, corrected_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+        stmt.run(
+            run.runId,
+            run.invoiceId,
+            JSON.stringify(run.invoice),
+            JSON.stringify(run.proposals),
+            run.losingCandidates ? JSON.stringify(run.losingCandidates) : null,
+            JSON.stringify(run.output),
+            run.createdAt,
+            run.correctedAt || null
+        );
+    }
+
+    /**
+     * Get processing run by run ID
+     */
+    getProcessingRun(runId: string): ProcessingRun | null {
+        const stmt = this.db.prepare('SELECT * FROM processing_runs WHERE run_id = ?');
+        const row = stmt.get(runId) as any;
+
+        if (!row) return null;
+
+        return this.parseProcessingRun(row);
+    }
+
+    /**
+     * Get all processing runs of an invoice, newest first
+     */
+    getProcessingRuns(invoiceId: string): ProcessingRun[] {
+        const stmt = this.db.prepare(
+            'SELECT * FROM processing_runs WHERE invoice_id = ? ORDER BY created_at DESC, rowid DESC'
+        );
+        const rows = stmt.all(invoiceId) as any[];
+
+        return rows.map(row => this.parseProcessingRun(row));
+    }
+
+    /**
+     * Mark a processing run as corrected by a human
+     * @param approvedInvoice Human-approved invoice, kept for replays
+     */
+    markProcessingRunCorrected(runId: string, approvedInvoice?: Invoice): void {
+        const stmt = this.db.prepare(
+            'UPDATE processing_runs SET corrected_at = ?, approved_invoice = ? WHERE run_id = ?'
+        );
+        stmt.run(getCurrentTimestamp(), approvedInvoice ? JSON.stringify(approvedInvoice) : null, runId);
+    }
+
+    /**
+     * Get the latest approved run of every corrected invoice, oldest first
+     */
+    getApprovedRuns(): ProcessingRun[] {
+        const rows = this.db.prepare(`
+      SELECT * FROM processing_runs
+      WHERE approved_invoice IS NOT NULL
+      ORDER BY corrected_at ASC, rowid ASC
+    `).all() as any[];
+
+        const latest = new Map<string, ProcessingRun>();
+        for (const row of rows) {
+            // Re-inserting moves a re-corrected invoice to the position of its latest correction
+            latest.delete(row.invoice_id);
+            latest.set(row.invoice_id, this.parseProcessingRun(row));
+        }
+
+        return [...latest.values()];
+    }
+
+    private parseProcessingRun(row: any): ProcessingRun {
+        return {
+            runId: row.run_id,
+            invoiceId: row.invoice_id,
+            invoice: JSON.parse(row.invoice),
+            proposals: JSON.parse(row.proposals),
+            losingCandidates: row.losing_candidates ? JSON.parse(row.losing_candidates) : undefined,
+            output: JSON.parse(row.output),
+            createdAt: row.created_at,
+            correctedAt: row.corrected_at ?? undefined,
+            approvedInvoice: row.approved_invoice ? JSON.parse(row.approved_invoice) : undefined,
+        };
+    }
+
+    // =========================================================================
+    // Purchase Orders & Goods Receipts
+    // =========================================================================
+
+    /**
+     * Save a purchase order (replaces an order with the same number)
+     */
+    savePurchaseOrder(order: PurchaseOrder): void {
+        const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO purchase_orders
+      (po_number, vendor, po_date, currency, line_items, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+        stmt.run(
+            order.poNumber,
+            order.vendor,
+            order.date,
+            order.currency || null,
+            JSON.stringify(order.lineItems),
+            getCurrentTimestamp()
+        );
+    }
+
+    /**
+     * Get purchase order by number
+     */
+    getPurchaseOrder(poNumber: string): PurchaseOrder | null {
+        const stmt = this.db.prepare('SELECT * FROM purchase_orders WHERE po_number = ?');
+        const row = stmt.get(poNumber) as any;
+
+        if (!row) return null;
+
+        return this.parsePurchaseOrder(row);
+    }
+
+    /**
+     * Get all purchase orders of a vendor (name compared case-insensitively), newest first
+     */
+    getPurchaseOrdersByVendor(vendor: string): PurchaseOrder[] {
+        const stmt = this.db.prepare(
+            'SELECT * FROM purchase_orders WHERE vendor = ? COLLATE NOCASE ORDER BY po_date DESC'
+        );
+        const rows = stmt.all(vendor) as any[];
+
+        return rows.map(row => this.parsePurchaseOrder(row));
+    }
+
+    /**
+     * Save a goods receipt (replaces a receipt with the same ID)
+     */
+    saveGoodsReceipt(receipt: GoodsReceipt): void {
+        const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO goods_receipts
+      (receipt_id, po_number, received_at, line_items, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+        stmt.run(
+            receipt.receiptId,
+            receipt.poNumber,
+            receipt.receivedAt,
+            JSON.stringify(receipt.lineItems),
+            getCurrentTimestamp()
+        );
+    }
+
+    /**
+     * Get all goods receipts booked against a purchase order, oldest first
+     */
+    getGoodsReceipts(poNumber: string): GoodsReceipt[] {
+        const stmt = this.db.prepare(
+            'SELECT * FROM goods_receipts WHERE po_number = ? ORDER BY received_at ASC'
+        );
+        const rows = stmt.all(poNumber) as any[];
+
+        return rows.map(row => ({
+            receiptId: row.receipt_id,
+            poNumber: row.po_number,
+            receivedAt: row.received_at,
+            lineItems: JSON.parse(row.line_items),
+        }));
+    }
+
+    private parsePurchaseOrder(row: any): PurchaseOrder {
+        return {
+            poNumber: row.po_number,
+            vendor: row.vendor,
+            date: row.po_date,
+            currency: row.currency ?? undefined,
+            lineItems: JSON.parse(row.line_items),
+        };
+    }
+
     // =========================================================================
     // Duplicate Detection
     // =========================================================================
@@ -335,32 +686,137 @@ export class MemoryStore {
         return row !== undefined;
     }
 
+    /**
+     * Find the processed invoice recorded under a fingerprint
+     */
+    findProcessedInvoice(fingerprint: string): { invoiceId: string; processedAt: string } | null {
+        const stmt = this.db.prepare(
+            'SELECT invoice_id, processed_at FROM processed_invoices WHERE fingerprint = ?'
+        );
+        const row = stmt.get(fingerprint) as any;
+
+        if (!row) return null;
+
+        return { invoiceId: row.invoice_id, processedAt: row.processed_at };
+    }
+
+    /**
+     * Forget that invoices were processed (their duplicate detection records)
+     */
+    deleteProcessedInvoices(invoiceIds: string[]): void {
+        const stmt = this.db.prepare('DELETE FROM processed_invoices WHERE invoice_id = ?');
+        for (const invoiceId of invoiceIds) stmt.run(invoiceId);
+    }
+
+    /**
+     * Count processed invoices
+     */
+    countProcessedInvoices(): number {
+        const row = this.db.prepare('SELECT COUNT(*) AS count FROM processed_invoices').get() as any;
+        return row.count;
+    }
+
+    /**
+     * Find processed invoices that may be duplicates of an invoice
+     * Candidates share the normalized invoice number or have a total within the tolerance
+     * @param amountTolerance Largest absolute total difference
+     */
+    findDuplicateCandidates(
+        invoiceNumber: string,
+        totalAmount: number | undefined,
+        amountTolerance: number
+    ): ProcessedInvoice[] {
+        const rows = this.db.prepare(`
+      SELECT * FROM processed_invoices
+      WHERE normalized_number = ?
+         OR (total_amount IS NOT NULL AND ABS(total_amount - ?) <= ?)
+      ORDER BY processed_at DESC
+    `).all(
+            normalizeInvoiceNumber(invoiceNumber),
+            totalAmount ?? null,
+            amountTolerance
+        ) as any[];
+
+        return rows.map(row => this.parseProcessedInvoice(row));
+    }
+
+    /**
+     * Most recent processed invoices of a vendor, newest first
+     * Matches the vendor memory id or any of the vendor's names (normalized)
+     */
+    getVendorHistory(vendorId: string | undefined, vendorNames: string[], limit: number): ProcessedInvoice[] {
+        const names = vendorNames.map(normalizeVendorName);
+        const rows = this.db.prepare(`
+      SELECT * FROM processed_invoices
+      WHERE vendor_id = ?
+         OR normalized_vendor IN (SELECT value FROM json_each(?))
+      ORDER BY processed_at DESC
+      LIMIT ?
+    `).all(vendorId ?? null, JSON.stringify(names), limit) as any[];
+
+        return rows.map(row => this.parseProcessedInvoice(row));
+    }
+
     /**
      * Record processed invoice
+     * @param vendorId Vendor memory the invoice was processed with
+     * @param profile Values kept for the vendor's statistics
      */
     recordProcessedInvoice(
         fingerprint: string,
         invoiceId: string,
         vendor: string,
         invoiceNumber: string,
-        totalAmount?: number
+        totalAmount?: number,
+        date?: string,
+        vendorId?: string,
+        profile?: InvoiceProfile
     ): void {
         const stmt = this.db.prepare(`
       INSERT OR REPLACE INTO processed_invoices
-      (fingerprint, invoice_id, vendor, invoice_number, total_amount, processed_at)
-      VALUES (?, ?, ?, ?, ?, ?)
+      (fingerprint, invoice_id, vendor, normalized_vendor, vendor_id, invoice_number, normalized_number,
+       invoice_date, total_amount, profile, processed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
         stmt.run(
             fingerprint,
             invoiceId,
             vendor,
+            normalizeVendorName(vendor),
+            vendorId || null,
             invoiceNumber,
+            normalizeInvoiceNumber(invoiceNumber),
+            date || null,
             totalAmount || null,
+            profile ? JSON.stringify(profile) : null,
             getCurrentTimestamp()
         );
     }
 
+    private parseProcessedInvoice(row: any): ProcessedInvoice {
+        return {
+            fingerprint: row.fingerprint,
+            invoiceId: row.invoice_id,
+            vendor: row.vendor,
+            invoiceNumber: row.invoice_number,
+            normalizedNumber: row.normalized_number ?? normalizeInvoiceNumber(row.invoice_number),
+            date: row.invoice_date ?? undefined,
+            totalAmount: row.total_amount ?? undefined,
+            processedAt: row.processed_at,
+            vendorId: row.vendor_id ?? undefined,
+            profile: row.profile ? JSON.parse(row.profile) : undefined,
+        };
+    }
+
+    /**
+     * Run a function inside a single database transaction
+     * Rolls back all writes if the function throws
+     */
+    transaction<T>(fn: () => T): T {
+        return this.db.transaction(fn)();
+    }
+
     /**
      * Close database connection
      */
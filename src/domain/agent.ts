@@ -3,22 +3,89 @@
  * Orchestrates the Think-Act-Learn cognitive loop
  */
 
-import { MemoryStore } from '../core/memory/store.js';
+import { MemoryStore, MemoryStoreOptions } from '../core/memory/store.js';
+import { patternRuleKey, ruleChanged } from '../core/memory/revisions.js';
+import {
+    exportKnowledge,
+    importKnowledge,
+    ExportOptions,
+    ImportOptions,
+} from '../core/memory/bundle.js';
 import { RecallEngine } from './recall-engine.js';
 import { CognitiveEngine } from './cognitive-engine.js';
 import { DecisionEngine } from './decision-engine.js';
+import { PurchaseOrderMatcher, PoMatchOptions } from './po-matcher.js';
+import { DuplicateDetector, DuplicateDetectionOptions } from './duplicate-detector.js';
+import { ConflictResolver, ConflictResolutionOptions } from './conflict-resolver.js';
+import { AnomalyDetector, AnomalyDetectionOptions } from './anomaly-detector.js';
+import { ConsistencyValidator, ConsistencyOptions } from './consistency-validator.js';
+import { PaymentScheduler, PaymentScheduleOptions } from './payment-scheduler.js';
+import { ReplayHarness } from './replay.js';
 import { induceRules } from '../core/logic/induction.js';
 import {
     Invoice,
     OutputContract,
     VendorMemory,
     OutputContractSchema,
-    InvoiceSchema
+    InvoiceSchema,
+    ResolutionOutcome,
+    RuleRevision,
+    RuleKind,
+    KnowledgeBundle,
+    ImportReport,
+    RuleSummary,
+    MemoryStats,
+    ProcessingRun,
+    FieldConfidence,
+    FieldConflict,
+    PurchaseOrder,
+    PurchaseOrderSchema,
+    GoodsReceipt,
+    GoodsReceiptSchema,
+    DuplicateCandidate,
+    DecisionPolicy,
+    DecisionPolicySchema,
+    ReplayCase,
+    ReplayCandidate,
+    ReplayReport,
+    VendorStatistics,
 } from '../types/index.js';
 import { getCurrentTimestamp } from '../utils/date.js';
+import { computeDiff, getFieldValue, setFieldValue, valuesMatch, PatchOperation } from '../utils/diff.js';
 import { generateFingerprints } from '../utils/fuzzy.js';
+import { formatPaymentTerms } from '../utils/payment-terms.js';
 import crypto from 'crypto';
 
+const PATTERN_OUTCOME_LABELS = {
+    CREATED: 'Learned',
+    GENERALIZED: 'Generalized',
+    REPLACED: 'Replaced',
+    RETAINED: 'Kept existing',
+} as const;
+
+const DEFAULT_OUTCOME_LABELS = {
+    OBSERVED: 'Observed',
+    PROMOTED: 'Promoted',
+    REINFORCED: 'Reinforced',
+    DEMOTED: 'Demoted',
+} as const;
+
+/**
+ * Agent configuration
+ */
+export interface AgentOptions {
+    taxRates?: number[]; // VAT rates searched by arithmetic induction (defaults to DE/AT/CH rates)
+    store?: MemoryStoreOptions; // Schema migration behaviour of the memory store
+    verbose?: boolean; // Log learning progress to the console (default: true)
+    poMatch?: PoMatchOptions; // Purchase order proposal and three-way match tolerances
+    duplicates?: DuplicateDetectionOptions; // Near-duplicate tolerances and threshold
+    policy?: DecisionPolicy; // Escalation checks and thresholds (see loadDecisionPolicy)
+    conflicts?: ConflictResolutionOptions; // Voting between disagreeing rules and the OCR value
+    anomalies?: AnomalyDetectionOptions; // Outlier thresholds against the vendor's history
+    consistency?: ConsistencyOptions; // Tolerances of the arithmetic checks
+    payments?: PaymentScheduleOptions; // Confidence of due dates derived from payment terms
+}
+
 /**
  * Intelligent Document Processing Agent
  * Implements Case-Based Reasoning with Learned Memory
@@ -28,12 +95,31 @@ export class Agent {
     private recallEngine: RecallEngine;
     private cognitiveEngine: CognitiveEngine;
     private decisionEngine: DecisionEngine;
+    private poMatcher: PurchaseOrderMatcher;
+    private duplicateDetector: DuplicateDetector;
+    private anomalyDetector: AnomalyDetector;
+    private consistencyValidator: ConsistencyValidator;
+    private paymentScheduler: PaymentScheduler;
 
-    constructor(dbPath?: string) {
-        this.store = new MemoryStore(dbPath);
+    /**
+     * @param dbPath Memory database file, or an open store (e.g. a snapshot for replays)
+     */
+    constructor(dbPath?: string | MemoryStore, private options: AgentOptions = {}) {
+        this.store = dbPath instanceof MemoryStore ? dbPath : new MemoryStore(dbPath, options.store);
         this.recallEngine = new RecallEngine(this.store);
-        this.cognitiveEngine = new CognitiveEngine();
-        this.decisionEngine = new DecisionEngine(this.store);
+        this.cognitiveEngine = new CognitiveEngine(new ConflictResolver(options.conflicts));
+        this.poMatcher = new PurchaseOrderMatcher(this.store, options.poMatch);
+        this.duplicateDetector = new DuplicateDetector(this.store, this.recallEngine, options.duplicates);
+        this.anomalyDetector = new AnomalyDetector(this.store, options.anomalies);
+        this.consistencyValidator = new ConsistencyValidator(options.consistency);
+        this.paymentScheduler = new PaymentScheduler(options.payments);
+        this.decisionEngine = new DecisionEngine(
+            this.store,
+            this.poMatcher,
+            this.duplicateDetector,
+            options.policy ? DecisionPolicySchema.parse(options.policy) : undefined,
+            this.anomalyDetector
+        );
     }
 
     /**
@@ -41,7 +127,7 @@ export class Agent {
      */
     async initialize(): Promise<void> {
         // Database is initialized in MemoryStore constructor
-        console.log('Agent initialized successfully');
+        this.log('Agent initialized successfully');
     }
 
     /**
@@ -67,13 +153,28 @@ export class Agent {
 
         // ACT: Apply - Execute rules
         const proposals = this.cognitiveEngine.apply(context);
+        this.poMatcher.apply(context, proposals);
+        this.consistencyValidator.apply(context, proposals);
+        this.paymentScheduler.apply(context, proposals);
 
         // DECIDE: Make final decision
         const output = this.decisionEngine.decide(context, proposals);
+        output.runId = crypto.randomUUID();
 
         // Validate output contract
         const validatedOutput = OutputContractSchema.parse(output);
 
+        // Persist the run so a later correction can be tied to what was proposed
+        this.store.saveProcessingRun({
+            runId: validatedOutput.runId!,
+            invoiceId: validatedInvoice.id,
+            invoice: validatedInvoice,
+            proposals: Object.fromEntries(proposals),
+            losingCandidates: losingCandidates(context.conflicts),
+            output: validatedOutput,
+            createdAt: getCurrentTimestamp(),
+        });
+
         return validatedOutput;
     }
 
@@ -84,17 +185,20 @@ export class Agent {
      * @param humanCorrection Human-corrected invoice
      */
     async learn(systemOutput: Invoice, humanCorrection: Invoice): Promise<void> {
-        console.log(`\nLearning from correction for invoice ${humanCorrection.id}...`);
-
-        // Induce rules from the diff
-        const induction = induceRules(systemOutput, humanCorrection);
-
-        console.log(`- Generated ${induction.vendorRules.length} vendor rule(s)`);
-        console.log(`- Generated ${induction.correctionRules.length} correction rule(s)`);
+        this.log(`\nLearning from correction for invoice ${humanCorrection.id}...`);
 
         // Get or create vendor memory
         let vendorMemory = this.findVendorMemory(humanCorrection.vendor);
 
+        // Induce rules from the diff, generalizing against existing patterns
+        const induction = induceRules(systemOutput, humanCorrection, {
+            vendorMemory,
+            taxRates: this.options.taxRates,
+        });
+
+        this.log(`- Generated ${induction.vendorRules.length} vendor rule(s)`);
+        this.log(`- Generated ${induction.correctionRules.length} correction rule(s)`);
+
         if (!vendorMemory) {
             // Create new vendor memory
             vendorMemory = {
@@ -107,29 +211,178 @@ export class Agent {
                 updatedAt: getCurrentTimestamp(),
             };
 
-            console.log(`- Created new vendor memory for "${humanCorrection.vendor}"`);
+            this.log(`- Created new vendor memory for "${humanCorrection.vendor}"`);
         }
 
+        const diff = computeDiff(systemOutput, humanCorrection);
+
         // Add vendor rules to memory
-        for (const { field, pattern } of induction.vendorRules) {
+        for (const { field, pattern, outcome } of induction.vendorRules) {
+            const previous = vendorMemory.patterns[field] || null;
+            if (previous?.disabled) pattern.disabled = true; // Re-learning does not re-enable a rule
             vendorMemory.patterns[field] = pattern;
             vendorMemory.updatedAt = getCurrentTimestamp();
 
-            console.log(`  • Learned pattern for field: ${field}`);
+            if (ruleChanged('VENDOR_PATTERN', previous, pattern)) {
+                this.store.recordRuleRevision({
+                    ruleKind: 'VENDOR_PATTERN',
+                    ruleKey: patternRuleKey(vendorMemory.id, field),
+                    source: 'LEARNED',
+                    invoiceId: humanCorrection.id,
+                    diff: diffForFields(diff, [field]),
+                    previousRule: previous,
+                    rule: pattern,
+                    createdAt: getCurrentTimestamp(),
+                });
+            }
+
+            this.log(`  • ${PATTERN_OUTCOME_LABELS[outcome]} pattern for field: ${field}`);
+        }
+
+        // Update vendor defaults from corrections no rule could explain
+        for (const { field, value, evidence, outcome } of induction.defaultUpdates) {
+            const defaults = { ...vendorMemory.defaults };
+            if (value === null) {
+                delete defaults[field];
+            } else {
+                defaults[field] = value;
+            }
+
+            vendorMemory.defaults = defaults;
+            vendorMemory.defaultEvidence = { ...vendorMemory.defaultEvidence, [field]: evidence };
+            vendorMemory.updatedAt = getCurrentTimestamp();
+
+            this.log(`  • ${DEFAULT_OUTCOME_LABELS[outcome]} default for ${field} (${evidence.values.length} correction(s) on record)`);
+        }
+
+        // Record the day/month order the vendor prints its dates in
+        const dateOrderChanged = !!induction.dateOrder && induction.dateOrder !== vendorMemory.dateOrder;
+        if (dateOrderChanged) {
+            vendorMemory.dateOrder = induction.dateOrder;
+            vendorMemory.updatedAt = getCurrentTimestamp();
+
+            this.log(`  • Recorded date order ${induction.dateOrder} for "${vendorMemory.vendorName}"`);
+        }
+
+        // Record the terms the vendor's due dates follow
+        const paymentTermsChanged = !!induction.paymentTerms
+            && JSON.stringify(induction.paymentTerms) !== JSON.stringify(vendorMemory.paymentTerms);
+        if (paymentTermsChanged) {
+            vendorMemory.paymentTerms = induction.paymentTerms;
+            vendorMemory.updatedAt = getCurrentTimestamp();
+
+            this.log(`  • Recorded payment terms for "${vendorMemory.vendorName}": ${formatPaymentTerms(induction.paymentTerms!)}`);
         }
 
         // Save vendor memory
-        if (induction.vendorRules.length > 0) {
+        if (induction.vendorRules.length > 0 || induction.defaultUpdates.length > 0 || dateOrderChanged || paymentTermsChanged) {
             this.store.saveVendorMemory(vendorMemory);
         }
 
         // Save correction rules
         for (const correctionRule of induction.correctionRules) {
+            const previous = this.store.getCorrectionMemory(correctionRule.id);
+            if (previous?.disabled) correctionRule.disabled = true;
             this.store.saveCorrectionMemory(correctionRule);
-            console.log(`  • Learned correction rule: ${correctionRule.description}`);
+
+            if (ruleChanged('CORRECTION_RULE', previous, correctionRule)) {
+                const fields = [
+                    correctionRule.targetField,
+                    ...Object.keys(correctionRule.additionalActions || {}),
+                ];
+
+                this.store.recordRuleRevision({
+                    ruleKind: 'CORRECTION_RULE',
+                    ruleKey: correctionRule.id,
+                    source: 'LEARNED',
+                    invoiceId: humanCorrection.id,
+                    diff: diffForFields(diff, fields),
+                    previousRule: previous,
+                    rule: correctionRule,
+                    createdAt: getCurrentTimestamp(),
+                });
+            }
+
+            this.log(`  • Learned correction rule: ${correctionRule.description}`);
         }
 
-        console.log('Learning complete!\n');
+        this.log('Learning complete!\n');
+    }
+
+    /**
+     * Reinforce or penalize the rules behind an output from the human-approved invoice
+     * Records ACCEPTED/REJECTED/MODIFIED per rule, then learns from remaining differences
+     * @param output Output contract returned by process()
+     * @param humanCorrection Human-approved invoice
+     * @returns Resolution outcome per rule-backed field
+     */
+    async feedback(
+        output: OutputContract,
+        humanCorrection: Invoice
+    ): Promise<Map<string, ResolutionOutcome>> {
+        const run = output.runId ? this.store.getProcessingRun(output.runId) : null;
+        const proposals = run
+            ? new Map(Object.entries(run.proposals))
+            : this.decisionEngine.proposalsFromContract(output);
+
+        return this.reinforceAndLearn(output, proposals, humanCorrection, run?.runId, run?.losingCandidates);
+    }
+
+    /**
+     * Learn from a human correction using the persisted run of the invoice
+     * The correction is diffed against what the agent actually proposed in that run
+     * @param humanCorrection Human-approved invoice
+     * @param runId Run to correct (defaults to the latest run of the invoice)
+     * @returns Resolution outcome per rule-backed field, or null if no run exists
+     */
+    async learnFromCorrection(
+        humanCorrection: Invoice,
+        runId?: string
+    ): Promise<Map<string, ResolutionOutcome> | null> {
+        const run = runId
+            ? this.store.getProcessingRun(runId)
+            : this.store.getProcessingRuns(humanCorrection.id)[0] || null;
+
+        if (!run || run.invoiceId !== humanCorrection.id) return null;
+
+        return this.reinforceAndLearn(
+            run.output,
+            new Map(Object.entries(run.proposals)),
+            humanCorrection,
+            run.runId,
+            run.losingCandidates
+        );
+    }
+
+    /**
+     * Get the processing history of an invoice, newest first
+     */
+    getProcessingRuns(invoiceId: string): ProcessingRun[] {
+        return this.store.getProcessingRuns(invoiceId);
+    }
+
+    /**
+     * Store a purchase order for PO matching (replaces an order with the same number)
+     */
+    savePurchaseOrder(order: PurchaseOrder): void {
+        this.store.savePurchaseOrder(PurchaseOrderSchema.parse(order));
+    }
+
+    /**
+     * Store a goods receipt for the three-way match
+     */
+    saveGoodsReceipt(receipt: GoodsReceipt): void {
+        this.store.saveGoodsReceipt(GoodsReceiptSchema.parse(receipt));
+    }
+
+    /**
+     * Get a purchase order with the goods received against it
+     */
+    getPurchaseOrder(poNumber: string): { order: PurchaseOrder; receipts: GoodsReceipt[] } | null {
+        const order = this.store.getPurchaseOrder(poNumber);
+        if (!order) return null;
+
+        return { order, receipts: this.store.getGoodsReceipts(poNumber) };
     }
 
     /**
@@ -139,6 +392,23 @@ export class Agent {
         return this.store.findVendorByName(vendorName);
     }
 
+    /**
+     * Statistics of a vendor's recent processed invoices (typical totals, currency, tax rate, ...)
+     */
+    getVendorStatistics(vendorName: string): VendorStatistics {
+        const vendorMemory = this.recallEngine.findVendorMemory(vendorName);
+        const names = [vendorName, vendorMemory?.vendorName].filter((name): name is string => !!name);
+
+        return this.anomalyDetector.getStatistics(vendorMemory, names);
+    }
+
+    /**
+     * Get vendor memory by ID
+     */
+    getVendorMemoryById(vendorId: string): VendorMemory | null {
+        return this.store.getVendorMemory(vendorId);
+    }
+
     /**
      * Get all vendor memories
      */
@@ -146,6 +416,257 @@ export class Agent {
         return this.store.getAllVendorMemories();
     }
 
+    /**
+     * List the revision history of a vendor pattern, oldest first
+     */
+    getPatternRevisions(vendorName: string, field: string): RuleRevision[] {
+        const vendorMemory = this.findVendorMemory(vendorName);
+        if (!vendorMemory) return [];
+
+        return this.store.getRuleRevisions('VENDOR_PATTERN', patternRuleKey(vendorMemory.id, field));
+    }
+
+    /**
+     * List the revision history of a correction rule, oldest first
+     */
+    getCorrectionRuleRevisions(ruleId: string): RuleRevision[] {
+        return this.store.getRuleRevisions('CORRECTION_RULE', ruleId);
+    }
+
+    /**
+     * Restore a vendor pattern to an earlier revision
+     * Revision 0 is the state before the first recorded revision (removes the pattern if none)
+     * @returns The ROLLBACK revision recorded, or null if vendor or revision is unknown
+     */
+    rollbackPattern(
+        vendorName: string,
+        field: string,
+        revision: number,
+        actor?: string
+    ): RuleRevision | null {
+        const vendorMemory = this.findVendorMemory(vendorName);
+        if (!vendorMemory) return null;
+
+        const ruleKey = patternRuleKey(vendorMemory.id, field);
+        const target = this.revisionState('VENDOR_PATTERN', ruleKey, revision);
+        if (target === undefined) return null;
+
+        const previous = vendorMemory.patterns[field] || null;
+        if (target) {
+            vendorMemory.patterns[field] = target;
+        } else {
+            delete vendorMemory.patterns[field];
+        }
+        vendorMemory.updatedAt = getCurrentTimestamp();
+        this.store.saveVendorMemory(vendorMemory);
+
+        this.log(`Rolled back ${field} pattern of "${vendorMemory.vendorName}" to revision ${revision}`);
+
+        return this.store.recordRuleRevision({
+            ruleKind: 'VENDOR_PATTERN',
+            ruleKey,
+            source: 'ROLLBACK',
+            actor,
+            previousRule: previous,
+            rule: target,
+            restoredRevision: revision,
+            createdAt: getCurrentTimestamp(),
+        });
+    }
+
+    /**
+     * Restore a correction rule to an earlier revision
+     * Revision 0 is the state before the first recorded revision (deletes the rule if none)
+     * @returns The ROLLBACK revision recorded, or null if the revision is unknown
+     */
+    rollbackCorrectionRule(ruleId: string, revision: number, actor?: string): RuleRevision | null {
+        const target = this.revisionState('CORRECTION_RULE', ruleId, revision);
+        if (target === undefined) return null;
+
+        const previous = this.store.getCorrectionMemory(ruleId);
+        if (target) {
+            this.store.saveCorrectionMemory(target);
+        } else {
+            this.store.deleteCorrectionMemory(ruleId);
+        }
+
+        this.log(`Rolled back correction rule ${ruleId} to revision ${revision}`);
+
+        return this.store.recordRuleRevision({
+            ruleKind: 'CORRECTION_RULE',
+            ruleKey: ruleId,
+            source: 'ROLLBACK',
+            actor,
+            previousRule: previous,
+            rule: target,
+            restoredRevision: revision,
+            createdAt: getCurrentTimestamp(),
+        });
+    }
+
+    /**
+     * List all vendor patterns and correction rules with their track record
+     */
+    listRules(): RuleSummary[] {
+        const rules: RuleSummary[] = [];
+
+        for (const vendorMemory of this.store.getAllVendorMemories()) {
+            for (const [field, pattern] of Object.entries(vendorMemory.patterns)) {
+                rules.push(this.summarizeRule({
+                    id: `${vendorMemory.id}-${field}`,
+                    kind: 'VENDOR_PATTERN',
+                    vendor: vendorMemory.vendorName,
+                    field,
+                    ruleType: pattern.ruleType,
+                    description: pattern.sampleEvidence || `${pattern.ruleType} pattern`,
+                    confidence: pattern.confidence,
+                    disabled: pattern.disabled === true,
+                }));
+            }
+        }
+
+        for (const correction of this.store.getAllCorrectionMemories()) {
+            rules.push(this.summarizeRule({
+                id: correction.id,
+                kind: 'CORRECTION_RULE',
+                field: [correction.targetField, ...Object.keys(correction.additionalActions || {})].join(','),
+                ruleType: 'FORMULA',
+                description: correction.description,
+                confidence: correction.confidence,
+                disabled: correction.disabled === true,
+            }));
+        }
+
+        return rules;
+    }
+
+    /**
+     * Disable or re-enable a rule without deleting it
+     * @param ruleId Correction rule id or vendor pattern id (`${vendorId}-${field}`, see listRules)
+     * @returns false if the rule does not exist
+     */
+    setRuleDisabled(ruleId: string, disabled: boolean, actor?: string): boolean {
+        const target = this.resolveRule(ruleId);
+        if (!target) return false;
+
+        const updated = { ...target.rule, disabled: disabled || undefined };
+        this.saveManualChange(target, updated, actor);
+
+        this.log(`${disabled ? 'Disabled' : 'Enabled'} rule ${ruleId}`);
+        return true;
+    }
+
+    /**
+     * Delete a rule (recorded as a revision, so it can be restored with a rollback)
+     * @param ruleId Correction rule id or vendor pattern id (`${vendorId}-${field}`, see listRules)
+     * @returns false if the rule does not exist
+     */
+    deleteRule(ruleId: string, actor?: string): boolean {
+        const target = this.resolveRule(ruleId);
+        if (!target) return false;
+
+        this.saveManualChange(target, null, actor);
+
+        this.log(`Deleted rule ${ruleId}`);
+        return true;
+    }
+
+    /**
+     * Check whether an invoice was already processed (without recording it)
+     * Matches exact resends by fingerprint and reformatted ones by similarity
+     */
+    checkDuplicate(invoice: Invoice): {
+        isDuplicate: boolean;
+        fingerprint: string;
+        matchedInvoiceId?: string;
+        processedAt?: string;
+        candidates: DuplicateCandidate[];
+    } {
+        const fingerprint = this.store.generateInvoiceFingerprint(
+            invoice.vendor,
+            invoice.invoiceNumber,
+            invoice.date,
+            invoice.totalAmount
+        );
+        const candidates = this.duplicateDetector.findCandidates(invoice);
+        const match = this.store.findProcessedInvoice(fingerprint)
+            || candidates.find(candidate => candidate.isDuplicate)
+            || null;
+
+        return {
+            isDuplicate: match !== null,
+            fingerprint,
+            matchedInvoiceId: match?.invoiceId,
+            processedAt: match?.processedAt,
+            candidates,
+        };
+    }
+
+    /**
+     * Summarize memory contents and rule performance
+     */
+    getStats(): MemoryStats {
+        const rules = this.listRules();
+        const applications = rules.reduce((sum, rule) => sum + rule.applications, 0);
+        const accepted = rules.reduce((sum, rule) => sum + rule.accepted, 0);
+
+        return {
+            schemaVersion: this.store.getSchemaStatus().currentVersion,
+            vendors: this.store.getAllVendorMemories().length,
+            vendorPatterns: rules.filter(rule => rule.kind === 'VENDOR_PATTERN').length,
+            correctionRules: rules.filter(rule => rule.kind === 'CORRECTION_RULE').length,
+            disabledRules: rules.filter(rule => rule.disabled).length,
+            processedInvoices: this.store.countProcessedInvoices(),
+            ruleApplications: applications,
+            acceptedApplications: accepted,
+            rejectedApplications: rules.reduce((sum, rule) => sum + rule.rejected, 0),
+            acceptanceRate: applications > 0 ? accepted / applications : null,
+        };
+    }
+
+    /**
+     * Export learned memories as a portable knowledge bundle
+     */
+    exportKnowledge(options: ExportOptions = {}): KnowledgeBundle {
+        return exportKnowledge(this.store, options);
+    }
+
+    /**
+     * Merge a knowledge bundle (e.g. from staging or a curated rule pack) into memory
+     * @param bundle Parsed bundle JSON
+     * @param options Merge strategy: skip (default), overwrite or keep-higher-confidence
+     * @returns Counts and per vendor/field conflicts
+     */
+    importKnowledge(bundle: unknown, options: ImportOptions = {}): ImportReport {
+        const report = importKnowledge(this.store, bundle, options);
+
+        this.log(
+            `Imported knowledge: ${report.vendorsCreated} new vendor(s), ${report.vendorsMerged} merged, ` +
+            `${report.patternsImported} pattern(s), ${report.correctionsImported} correction rule(s), ` +
+            `${report.conflicts.length} conflict(s)`
+        );
+
+        return report;
+    }
+
+    /**
+     * Backtest memory on approved invoices without writing to this agent's store
+     * @param cases Defaults to every invoice with an approved correction
+     * @param candidate Rule changes to compare against current memory
+     * @throws Error if the candidate references an unknown vendor or rule
+     */
+    async replay(cases?: ReplayCase[], candidate?: ReplayCandidate): Promise<ReplayReport> {
+        const harness = new ReplayHarness(this.store, store => new Agent(store, { ...this.options, verbose: false }));
+        const report = await harness.run(cases, candidate);
+
+        this.log(
+            `Replayed ${report.baseline.cases} invoice(s): automation ${(report.baseline.automationRate * 100).toFixed(1)}%` +
+            (report.candidate ? `, candidate ${(report.candidate.automationRate * 100).toFixed(1)}% with ${report.newErrors.length} new error(s)` : '')
+        );
+
+        return report;
+    }
+
     /**
      * Close the agent (cleanup)
      */
@@ -169,6 +690,156 @@ export class Agent {
         ) || null;
     }
 
+    /**
+     * Record resolution outcomes of the proposals, then learn from what the human still changed
+     */
+    private async reinforceAndLearn(
+        output: OutputContract,
+        proposals: Map<string, FieldConfidence>,
+        humanCorrection: Invoice,
+        runId?: string,
+        losing: FieldConfidence[] = []
+    ): Promise<Map<string, ResolutionOutcome>> {
+        const validatedCorrection = InvoiceSchema.parse(humanCorrection);
+
+        // Reinforce: score every rule that contributed a value, and the outvoted ones
+        // (a rule proven right can win next time)
+        const ruleProposals = new Map([...proposals].filter(([, proposal]) => proposal.ruleId));
+        const outcomes = this.decisionEngine.recordResolutions(ruleProposals, validatedCorrection, losing);
+
+        for (const [field, outcome] of outcomes.entries()) {
+            this.log(`  • Rule for field ${field}: ${outcome}`);
+        }
+
+        // Learn: induce rules from what the human still had to change
+        // (accepted values are aligned so formatting differences don't re-induce rules)
+        const systemOutput = this.contractToInvoice(output, validatedCorrection.rawText);
+        for (const [field, outcome] of outcomes.entries()) {
+            const humanValue = getFieldValue(humanCorrection, field);
+            if (outcome === 'ACCEPTED' && humanValue !== undefined) {
+                setFieldValue(systemOutput, field, humanValue);
+            }
+        }
+
+        await this.learn(systemOutput, humanCorrection);
+
+        if (runId) this.store.markProcessingRunCorrected(runId, validatedCorrection);
+
+        return outcomes;
+    }
+
+    /**
+     * Locate a rule by the id shown in listRules()
+     */
+    private resolveRule(ruleId: string): ManagedRule | null {
+        const correction = this.store.getCorrectionMemory(ruleId);
+        if (correction) {
+            return { kind: 'CORRECTION_RULE', ruleKey: ruleId, rule: correction };
+        }
+
+        for (const vendorMemory of this.store.getAllVendorMemories()) {
+            const prefix = `${vendorMemory.id}-`;
+            if (!ruleId.startsWith(prefix)) continue;
+
+            const field = ruleId.slice(prefix.length);
+            const pattern = vendorMemory.patterns[field];
+            if (!pattern) return null;
+
+            return {
+                kind: 'VENDOR_PATTERN',
+                ruleKey: patternRuleKey(vendorMemory.id, field),
+                rule: pattern,
+                vendorMemory,
+                field,
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Persist a manual change to a rule (null deletes it) and record it as a revision
+     */
+    private saveManualChange(target: ManagedRule, updated: any, actor?: string): void {
+        if (target.kind === 'VENDOR_PATTERN' && target.vendorMemory && target.field) {
+            if (updated) {
+                target.vendorMemory.patterns[target.field] = updated;
+            } else {
+                delete target.vendorMemory.patterns[target.field];
+            }
+            target.vendorMemory.updatedAt = getCurrentTimestamp();
+            this.store.saveVendorMemory(target.vendorMemory);
+        } else if (updated) {
+            this.store.saveCorrectionMemory(updated);
+        } else {
+            this.store.deleteCorrectionMemory(target.ruleKey);
+        }
+
+        this.store.recordRuleRevision({
+            ruleKind: target.kind,
+            ruleKey: target.ruleKey,
+            source: 'MANUAL',
+            actor,
+            previousRule: target.rule,
+            rule: updated,
+            createdAt: getCurrentTimestamp(),
+        });
+    }
+
+    private summarizeRule(
+        rule: Omit<RuleSummary, 'applications' | 'accepted' | 'rejected'>
+    ): RuleSummary {
+        const resolution = this.store.getResolutionMemory(rule.id);
+
+        return {
+            ...rule,
+            applications: resolution.totalApplications,
+            accepted: resolution.acceptedCount,
+            rejected: resolution.rejectedCount,
+        };
+    }
+
+    private log(...args: any[]): void {
+        if (this.options.verbose !== false) console.log(...args);
+    }
+
+    /**
+     * Rule content as of a revision (null: rule did not exist, undefined: unknown revision)
+     */
+    private revisionState(ruleKind: RuleKind, ruleKey: string, revision: number): any {
+        if (revision === 0) {
+            const first = this.store.getRuleRevision(ruleKind, ruleKey, 1);
+            return first ? first.previousRule : undefined;
+        }
+
+        const stored = this.store.getRuleRevision(ruleKind, ruleKey, revision);
+        return stored ? stored.rule : undefined;
+    }
+
+    /**
+     * Convert an output contract back into an invoice for diffing
+     */
+    private contractToInvoice(output: OutputContract, rawText: string): Invoice {
+        const {
+            invoiceId,
+            requiresHumanReview: _requiresHumanReview,
+            reasoning: _reasoning,
+            reviewReasons: _reviewReasons,
+            confidence: _confidence,
+            fields: _fields,
+            auditTrail: _auditTrail,
+            processedAt: _processedAt,
+            runId: _runId,
+            poMatch: _poMatch,
+            duplicateOf: _duplicateOf,
+            duplicateCandidates: _duplicateCandidates,
+            paymentSchedule: _paymentSchedule,
+            ...fields
+        } = output;
+
+        return { ...fields, id: invoiceId, rawText };
+    }
+
     /**
      * Generate unique ID
      */
@@ -176,3 +847,34 @@ export class Agent {
         return crypto.randomBytes(16).toString('hex');
     }
 }
+
+/**
+ * A rule addressed by id for manual changes
+ */
+interface ManagedRule {
+    kind: RuleKind;
+    ruleKey: string; // Revision key
+    rule: any;
+    vendorMemory?: VendorMemory;
+    field?: string;
+}
+
+/**
+ * Keep the patch operations that touch the given fields
+ */
+function diffForFields(diff: PatchOperation[], fields: string[]): PatchOperation[] {
+    // "*" segments of per-line fields match any line index
+    const prefixes = fields.map(field => new RegExp(`^/${field.replace(/\*/g, '\\d+')}(?:/|$)`));
+    return diff.filter(op => prefixes.some(prefix => prefix.test(op.path)));
+}
+
+/**
+ * Rule-backed candidates that lost their field's vote
+ */
+function losingCandidates(conflicts: FieldConflict[]): FieldConfidence[] | undefined {
+    const losing = conflicts.flatMap(conflict => conflict.candidates.filter(candidate =>
+        candidate.ruleId && !valuesMatch(candidate.value, conflict.resolved.value)
+    ));
+
+    return losing.length > 0 ? losing : undefined;
+}
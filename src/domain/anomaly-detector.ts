@@ -0,0 +1,256 @@
+/**
+ * Anomaly Detector
+ * Builds per-vendor statistics from processed invoices and flags invoices that
+ * are unusual for their vendor (outlier totals, currency or tax rate switches,
+ * changed payment terms, new bank accounts or SKUs, unusual frequency)
+ */
+
+import { MemoryStore } from '../core/memory/store.js';
+import { normalizeTaxRate } from '../core/logic/engine.js';
+import {
+    Invoice,
+    InvoiceProfile,
+    ProcessedInvoice,
+    ReviewReason,
+    VendorMemory,
+    VendorStatistics,
+} from '../types/index.js';
+import { daysBetween } from '../utils/date.js';
+
+/**
+ * Anomaly detection configuration
+ */
+export interface AnomalyDetectionOptions {
+    historySize?: number; // Recent processed invoices per vendor the statistics use (default: 50)
+    minHistory?: number; // Invoices needed before anything is flagged (default: 3)
+    amountFactor?: number; // Total this many times above (or below) the median is an outlier (default: 5)
+    taxRateTolerance?: number; // Percentage points a tax rate may differ from a usual one (default: 0.5)
+    frequencyFactor?: number; // Interval below this share of the mean interval is unusual (default: 0.2)
+}
+
+/**
+ * IBAN-like token: country code, check digits, 11-30 alphanumerics (optionally in groups of four)
+ */
+const BANK_ACCOUNT_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g;
+
+export class AnomalyDetector {
+    constructor(
+        private store: MemoryStore,
+        private options: AnomalyDetectionOptions = {}
+    ) { }
+
+    /**
+     * Statistics of a vendor's recent processed invoices
+     * @param vendorNames Names the vendor is known by (invoice spelling, vendor memory name)
+     * @param excludeInvoiceId Invoice left out (e.g. the one being checked)
+     */
+    getStatistics(
+        vendorMemory: VendorMemory | null,
+        vendorNames: string[],
+        excludeInvoiceId?: string
+    ): VendorStatistics {
+        const history = this.store
+            .getVendorHistory(vendorMemory?.id, vendorNames, this.options.historySize ?? 50)
+            .filter(record => record.invoiceId !== excludeInvoiceId);
+
+        return buildStatistics(vendorMemory?.vendorName || vendorNames[0], history);
+    }
+
+    /**
+     * Compare an invoice with its vendor's statistics
+     * Nothing is flagged while the vendor has fewer invoices than minHistory
+     * @param invoice Final values (after proposals)
+     * @param rawText Text searched for bank accounts
+     */
+    detect(invoice: Invoice, rawText: string, statistics: VendorStatistics): ReviewReason[] {
+        if (statistics.invoices < (this.options.minHistory ?? 3)) return [];
+
+        const profile = profileInvoice(invoice, rawText);
+        const reasons: ReviewReason[] = [];
+        const seen = `in ${statistics.invoices} invoice(s) of ${statistics.vendor}`;
+
+        const amounts = statistics.totalAmount;
+        const factor = this.options.amountFactor ?? 5;
+        if (amounts && invoice.totalAmount && amounts.median > 0) {
+            const ratio = invoice.totalAmount / amounts.median;
+
+            if (ratio >= factor || ratio <= 1 / factor) {
+                reasons.push({
+                    code: 'AMOUNT_OUTLIER',
+                    severity: 'WARNING',
+                    field: 'totalAmount',
+                    expected: amounts,
+                    actual: invoice.totalAmount,
+                    message: `Total ${invoice.totalAmount} is ${ratio >= 1 ? `${ratio.toFixed(1)}x above` : `${(1 / ratio).toFixed(1)}x below`} the vendor's median of ${amounts.median} (range ${amounts.min}-${amounts.max})`,
+                });
+            }
+        }
+
+        const currencies = Object.keys(statistics.currencies);
+        if (profile.currency && currencies.length > 0 && !currencies.includes(profile.currency)) {
+            reasons.push({
+                code: 'CURRENCY_CHANGE',
+                severity: 'WARNING',
+                field: 'currency',
+                expected: currencies,
+                actual: profile.currency,
+                message: `Currency ${profile.currency} differs from ${currencies.join(', ')} used ${seen}`,
+            });
+        }
+
+        const taxRates = Object.keys(statistics.taxRates).map(Number);
+        const tolerance = this.options.taxRateTolerance ?? 0.5;
+        if (profile.taxRate !== undefined && taxRates.length > 0
+            && !taxRates.some(rate => Math.abs(rate - profile.taxRate!) <= tolerance)) {
+            reasons.push({
+                code: 'TAX_RATE_CHANGE',
+                severity: 'WARNING',
+                field: 'taxAmount',
+                expected: taxRates,
+                actual: profile.taxRate,
+                message: `Tax rate ${profile.taxRate}% differs from ${taxRates.map(rate => `${rate}%`).join(', ')} used ${seen}`,
+            });
+        }
+
+        const terms = Object.keys(statistics.paymentTerms);
+        if (profile.paymentTerms && terms.length > 0 && !terms.includes(profile.paymentTerms)) {
+            reasons.push({
+                code: 'PAYMENT_TERMS_CHANGE',
+                severity: 'INFO',
+                field: 'paymentTerms',
+                expected: terms,
+                actual: invoice.paymentTerms,
+                message: `Payment terms "${invoice.paymentTerms}" differ from the usual "${terms[0]}"`,
+            });
+        }
+
+        // A bank account never seen for the vendor is the classic invoice fraud pattern
+        for (const account of profile.bankAccounts) {
+            if (account in statistics.bankAccounts) continue;
+
+            const known = Object.keys(statistics.bankAccounts);
+            reasons.push({
+                code: 'NEW_BANK_ACCOUNT',
+                severity: 'CRITICAL',
+                expected: known,
+                actual: account,
+                message: known.length > 0
+                    ? `Bank account ${account} was not used ${seen} (known: ${known.join(', ')})`
+                    : `Bank account ${account} appears for the first time ${seen}`,
+            });
+        }
+
+        const newSkus = Object.keys(statistics.skus).length > 0
+            ? profile.skus.filter(sku => !(sku in statistics.skus))
+            : [];
+        if (newSkus.length > 0) {
+            reasons.push({
+                code: 'NEW_SKU',
+                severity: 'INFO',
+                field: 'lineItems',
+                actual: newSkus,
+                message: `SKU(s) ${newSkus.join(', ')} not ordered before from ${statistics.vendor}`,
+            });
+        }
+
+        const { meanIntervalDays, lastInvoiceDate } = statistics;
+        if (invoice.date && lastInvoiceDate && meanIntervalDays && invoice.date >= lastInvoiceDate) {
+            const interval = daysBetween(lastInvoiceDate, invoice.date);
+
+            if (interval < meanIntervalDays * (this.options.frequencyFactor ?? 0.2)) {
+                reasons.push({
+                    code: 'UNUSUAL_FREQUENCY',
+                    severity: 'INFO',
+                    field: 'date',
+                    expected: meanIntervalDays,
+                    actual: interval,
+                    message: `Invoice ${interval} day(s) after the previous one (vendor invoices every ${meanIntervalDays.toFixed(0)} days on average)`,
+                });
+            }
+        }
+
+        return reasons;
+    }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Extract the values vendor statistics are built from
+ */
+export function profileInvoice(invoice: Invoice, rawText: string): InvoiceProfile {
+    return {
+        currency: invoice.currency?.trim().toUpperCase() || undefined,
+        taxRate: taxRate(invoice),
+        paymentTerms: invoice.paymentTerms?.trim().toLowerCase().replace(/\s+/g, ' ') || undefined,
+        skus: [...new Set((invoice.lineItems || []).map(line => line.sku).filter((sku): sku is string => !!sku))],
+        bankAccounts: [...new Set((rawText.match(BANK_ACCOUNT_PATTERN) || []).map(token => token.replace(/ /g, '')))],
+    };
+}
+
+/**
+ * Tax rate in percent (one decimal), from the amounts or the line items' common rate
+ */
+function taxRate(invoice: Invoice): number | undefined {
+    if (invoice.taxAmount !== undefined && invoice.netAmount) {
+        return Math.round((invoice.taxAmount / invoice.netAmount) * 1000) / 10;
+    }
+
+    // Line rates may be fractions (0.19) or percentages (19)
+    const rates = new Set((invoice.lineItems || [])
+        .map(line => line.taxRate)
+        .filter((rate): rate is number => rate !== undefined)
+        .map(rate => Math.round(normalizeTaxRate(rate) * 1000) / 10));
+    return rates.size === 1 ? [...rates][0] : undefined;
+}
+
+function buildStatistics(vendor: string, history: ProcessedInvoice[]): VendorStatistics {
+    const totals = history
+        .map(record => record.totalAmount)
+        .filter((total): total is number => total !== undefined)
+        .sort((a, b) => a - b);
+
+    const dates = [...new Set(history.map(record => record.date).filter((date): date is string => !!date))].sort();
+    const intervals = dates.slice(1).map((date, i) => daysBetween(dates[i], date));
+
+    const profiles = history
+        .map(record => record.profile)
+        .filter((profile): profile is InvoiceProfile => !!profile);
+
+    return {
+        vendor,
+        invoices: history.length,
+        totalAmount: totals.length > 0
+            ? { min: totals[0], median: median(totals), max: totals[totals.length - 1] }
+            : null,
+        currencies: countValues(profiles.map(profile => profile.currency)),
+        taxRates: countValues(profiles.map(profile => profile.taxRate)),
+        paymentTerms: countValues(profiles.map(profile => profile.paymentTerms)),
+        skus: countValues(profiles.flatMap(profile => profile.skus)),
+        bankAccounts: countValues(profiles.flatMap(profile => profile.bankAccounts)),
+        meanIntervalDays: intervals.length > 0
+            ? intervals.reduce((sum, days) => sum + days, 0) / intervals.length
+            : null,
+        lastInvoiceDate: dates[dates.length - 1],
+    };
+}
+
+/**
+ * Count occurrences, most frequent first
+ */
+function countValues(values: Array<string | number | undefined>): Record<string, number> {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+        if (value === undefined) continue;
+        counts.set(String(value), (counts.get(String(value)) || 0) + 1);
+    }
+
+    return Object.fromEntries([...counts.entries()].sort((a, b) => b[1] - a[1]));
+}
+
+function median(sorted: number[]): number {
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -3,77 +3,93 @@
  * Executes json-logic rules and computes confidence scores
  */
 
-import { ProcessingContext, FieldConfidence} from '../types/index.js';
+import {
+    ProcessingContext,
+    FieldConfidence,
+    CorrectionMemory,
+    JsonLogicRule,
+    Invoice,
+    LineItem,
+    VendorPattern,
+} from '../types/index.js';
 import { executeRule } from '../core/logic/engine.js';
 import { getCurrentTimestamp, daysBetween } from '../utils/date.js';
+import { setFieldValue } from '../utils/diff.js';
+import { ConflictResolver, FieldCandidate } from './conflict-resolver.js';
 
 export class CognitiveEngine {
+    constructor(private conflictResolver: ConflictResolver = new ConflictResolver()) { }
+
     /**
      * Apply vendor patterns and correction rules to invoice
+     * Every rule's value is a candidate; the conflict resolver picks one per field
      * Returns proposed field values with confidence scores
      */
     apply(context: ProcessingContext): Map<string, FieldConfidence> {
-        const proposals = new Map<string, FieldConfidence>();
+        const candidates = new Map<string, FieldCandidate[]>();
         const { invoice, vendorMemory, correctionMemories } = context;
 
         // Step 1: Apply vendor-specific patterns (highest priority)
+        // Per-line patterns ("lineItems/*/sku") run last so they see extracted table rows
         if (vendorMemory) {
-            for (const [field, pattern] of Object.entries(vendorMemory.patterns)) {
+            const patterns = Object.entries(vendorMemory.patterns).filter(([, pattern]) => !pattern.disabled);
+
+            for (const [field, pattern] of patterns.filter(([field]) => !isPerLineField(field))) {
                 const result = executeRule(pattern.logic, invoice);
+                if (result === null || result === undefined) continue;
 
-                if (result !== null && result !== undefined) {
-                    // Calculate confidence from resolution memory
-                    const patternId = `${vendorMemory.id}-${field}`;
-                    const resolution = context.resolutionMemories.get(patternId);
+                if (pattern.ruleType === 'TABLE' && Array.isArray(result)) {
+                    // One proposal per extracted cell, addressed by line index
+                    result.forEach((row: Record<string, any>, index: number) => {
+                        for (const [property, value] of Object.entries(row)) {
+                            this.proposePattern(context, candidates, `${field}/${index}/${property}`, value, field, pattern);
+                        }
+                    });
+                } else {
+                    this.proposePattern(context, candidates, field, result, field, pattern);
+                }
+            }
 
-                    const confidence = this.calculateConfidence(
-                        pattern.confidence,
-                        resolution,
-                        pattern.lastUsed
-                    );
+            const lines = this.currentLineItems(invoice, candidates);
 
-                    proposals.set(field, {
-                        field,
-                        value: result,
-                        confidence,
-                        source: 'VENDOR_PATTERN',
-                        ruleId: patternId,
-                        reasoning: `Applied vendor pattern for "${vendorMemory.vendorName}"`,
-                    });
+            for (const [field, pattern] of patterns.filter(([field]) => isPerLineField(field))) {
+                lines.forEach((line, index) => {
+                    const result = executeRule(pattern.logic, { ...invoice, line, lineIndex: index });
+                    if (result === null || result === undefined) return;
 
-                    context.auditTrail.push({
-                        step: 'APPLY',
-                        action: 'VENDOR_PATTERN',
-                        field,
-                        newValue: result,
-                        reasoning: `Extracted using vendor pattern (confidence: ${confidence.toFixed(2)})`,
-                        confidence,
-                        timestamp: getCurrentTimestamp(),
-                    });
-                }
+                    this.proposePattern(context, candidates, field.replace('/*/', `/${index}/`), result, field, pattern);
+                });
             }
         }
 
         // Step 2: Apply vendor defaults (if field not yet filled)
+        // Learned defaults carry the consistency of their corrections as confidence
         if (vendorMemory?.defaults) {
             for (const [field, value] of Object.entries(vendorMemory.defaults)) {
-                if (!proposals.has(field) && value) {
-                    proposals.set(field, {
-                        field,
-                        value,
-                        confidence: 0.90,
-                        source: 'VENDOR_PATTERN',
-                        reasoning: `Applied vendor default value`,
-                    });
+                if (!candidates.has(field) && value) {
+                    const evidence = vendorMemory.defaultEvidence?.[field];
+                    const confidence = evidence?.confidence ?? 0.90;
+                    const reasoning = evidence
+                        ? `Applied vendor default value (learned from ${evidence.values.length} correction(s))`
+                        : 'Applied vendor default value';
 
-                    context.auditTrail.push({
-                        step: 'APPLY',
-                        action: 'VENDOR_DEFAULT',
-                        field,
-                        newValue: value,
-                        reasoning: 'Applied vendor default value',
-                        confidence: 0.90,
-                        timestamp: getCurrentTimestamp(),
+                    addCandidate(candidates, {
+                        proposal: {
+                            field,
+                            value,
+                            confidence,
+                            source: 'VENDOR_PATTERN',
+                            reasoning,
+                        },
+                        audit: {
+                            step: 'APPLY',
+                            action: 'VENDOR_DEFAULT',
+                            field,
+                            newValue: value,
+                            reasoning,
+                            confidence,
+                            timestamp: getCurrentTimestamp(),
+                        },
                     });
                 }
             }
@@ -81,54 +97,112 @@ export class CognitiveEngine {
 
         // Step 3: Apply correction rules (global patterns)
         for (const correction of correctionMemories) {
+            if (correction.disabled) continue;
+
             // Test trigger condition
             const triggered = executeRule(correction.triggerCondition, invoice);
+            if (!triggered) continue;
 
-            if (triggered) {
-                // Execute action to get field value
-                const result = executeRule(correction.action, invoice);
-
-                if (result !== null && result !== undefined) {
-                    // Determine target field from action
-                    const field = this.extractFieldFromAction(correction.action);
-
-                    if (field) {
-                        // Only apply if not already filled by vendor pattern
-                        const existing = proposals.get(field);
-
-                        if (!existing || existing.confidence < correction.confidence) {
-                            const resolution = context.resolutionMemories.get(correction.id);
-                            const confidence = this.calculateConfidence(
-                                correction.confidence,
-                                resolution,
-                                correction.lastUsed
-                            );
-
-                            proposals.set(field, {
-                                field,
-                                value: result,
-                                confidence,
-                                source: 'CORRECTION_RULE',
-                                ruleId: correction.id,
-                                reasoning: correction.description,
-                            });
-
-                            context.auditTrail.push({
-                                step: 'APPLY',
-                                action: 'CORRECTION_RULE',
-                                field,
-                                newValue: result,
-                                reasoning: correction.description,
-                                confidence,
-                                timestamp: getCurrentTimestamp(),
-                            });
-                        }
-                    }
-                }
+            // Execute every action to get the value of its target field
+            for (const [field, action] of this.getCorrectionActions(correction)) {
+                const result = executeRule(action, invoice);
+                if (result === null || result === undefined) continue;
+
+                const resolution = context.resolutionMemories.get(correction.id);
+                const confidence = this.calculateConfidence(
+                    correction.confidence,
+                    resolution,
+                    correction.lastUsed
+                );
+
+                addCandidate(candidates, {
+                    proposal: {
+                        field,
+                        value: result,
+                        confidence,
+                        source: 'CORRECTION_RULE',
+                        ruleId: correction.id,
+                        reasoning: correction.description,
+                    },
+                    audit: {
+                        step: 'APPLY',
+                        action: 'CORRECTION_RULE',
+                        field,
+                        newValue: result,
+                        reasoning: correction.description,
+                        confidence,
+                        ruleId: correction.id,
+                        timestamp: getCurrentTimestamp(),
+                    },
+                });
             }
         }
 
-        return proposals;
+        // Step 4: Resolve disagreeing candidates (and the OCR value) into one proposal per field
+        return this.conflictResolver.resolve(context, candidates);
+    }
+
+    /**
+     * Add a value extracted by a vendor pattern as candidate
+     * @param field Proposed field path
+     * @param patternField Key of the pattern in vendor memory (identifies the rule)
+     */
+    private proposePattern(
+        context: ProcessingContext,
+        candidates: Map<string, FieldCandidate[]>,
+        field: string,
+        value: any,
+        patternField: string,
+        pattern: VendorPattern
+    ): void {
+        const vendorMemory = context.vendorMemory!;
+
+        // Calculate confidence from resolution memory
+        const patternId = `${vendorMemory.id}-${patternField}`;
+        const resolution = context.resolutionMemories.get(patternId);
+
+        const confidence = this.calculateConfidence(
+            pattern.confidence,
+            resolution,
+            pattern.lastUsed
+        );
+
+        addCandidate(candidates, {
+            proposal: {
+                field,
+                value,
+                confidence,
+                source: 'VENDOR_PATTERN',
+                ruleId: patternId,
+                reasoning: `Applied vendor pattern for "${vendorMemory.vendorName}"`,
+            },
+            audit: {
+                step: 'APPLY',
+                action: 'VENDOR_PATTERN',
+                field,
+                newValue: value,
+                reasoning: `Extracted using vendor pattern (confidence: ${confidence.toFixed(2)})`,
+                confidence,
+                ruleId: patternId,
+                timestamp: getCurrentTimestamp(),
+            },
+        });
+    }
+
+    /**
+     * Line items of the invoice overlaid with the most confident line candidates so far
+     */
+    private currentLineItems(invoice: Invoice, candidates: Map<string, FieldCandidate[]>): LineItem[] {
+        const draft = { lineItems: JSON.parse(JSON.stringify(invoice.lineItems || [])) as LineItem[] };
+
+        for (const [field, fieldCandidates] of candidates.entries()) {
+            if (!field.startsWith('lineItems/')) continue;
+
+            const best = fieldCandidates.reduce((a, b) => (b.proposal.confidence > a.proposal.confidence ? b : a));
+            setFieldValue(draft, field, best.proposal.value);
+        }
+
+        return draft.lineItems;
     }
 
     /**
@@ -163,17 +237,24 @@ export class CognitiveEngine {
     }
 
     /**
-     * Extract target field from correction action
+     * List the (field, action) pairs of a correction rule
      */
-    private extractFieldFromAction(action: any): string | null {
-        // The action is a JsonLogic formula, we need to infer the target field
-        // For now, we use common patterns
-        const actionStr = JSON.stringify(action);
+    private getCorrectionActions(correction: CorrectionMemory): Array<[string, JsonLogicRule]> {
+        return [
+            [correction.targetField, correction.action],
+            ...Object.entries(correction.additionalActions || {}),
+        ];
+    }
+}
 
-        if (actionStr.includes('taxAmount') || actionStr.includes('tax')) return 'taxAmount';
-        if (actionStr.includes('netAmount') || actionStr.includes('net')) return 'netAmount';
-        if (actionStr.includes('totalAmount') || actionStr.includes('total')) return 'totalAmount';
+/**
+ * Pattern keys with a "*" line index are evaluated once per line item
+ */
+function isPerLineField(field: string): boolean {
+    return field.includes('/*/');
+}
 
-        return null;
-    }
+function addCandidate(candidates: Map<string, FieldCandidate[]>, candidate: FieldCandidate): void {
+    const field = candidate.proposal.field;
+    candidates.set(field, [...(candidates.get(field) || []), candidate]);
 }
@@ -0,0 +1,180 @@
+/**
+ * Conflict Resolver
+ * Chooses one value per field from the candidates proposed by vendor patterns,
+ * defaults and correction rules, with the extracted (OCR) value as a voter
+ */
+
+import { ProcessingContext, FieldConfidence, FieldSource, AuditTrailEntry } from '../types/index.js';
+import { getCurrentTimestamp } from '../utils/date.js';
+import { getFieldValue, valuesMatch } from '../utils/diff.js';
+
+/**
+ * Confidence of a value taken unchanged from the extraction
+ */
+export const OCR_CONFIDENCE = 0.70;
+
+/**
+ * Vote of the extracted value against proposed ones: below the 0.56 of the least
+ * confident unproven rule (0.8 x base 0.70), so a learned rule outranks the value
+ * it was learned to correct until its track record says otherwise
+ */
+export const OCR_VOTE = 0.5;
+
+/**
+ * Conflict resolution configuration
+ */
+export interface ConflictResolutionOptions {
+    ocrVote?: number; // Vote of the extracted value (default: OCR_VOTE)
+    agreementBonus?: number; // Added when the OCR value agrees with the chosen value (default: 0.05)
+    disagreementPenalty?: number; // Subtracted when another value was proposed (default: 0.05)
+    closeMargin?: number; // Vote difference below which a conflict needs review (default: 0.1)
+}
+
+/**
+ * A proposed value with the audit entry recorded if it wins
+ */
+export interface FieldCandidate {
+    proposal: FieldConfidence;
+    audit?: AuditTrailEntry;
+}
+
+/**
+ * Tie-breaker between values with equal votes
+ */
+const SOURCE_PRIORITY: Record<FieldSource, number> = {
+    HUMAN: 4,
+    VENDOR_PATTERN: 3,
+    CORRECTION_RULE: 2,
+    PO_MATCH: 1,
+    VALIDATION: 1,
+    PAYMENT_TERMS: 1,
+    OCR: 0,
+};
+
+interface ValueGroup {
+    candidates: FieldCandidate[];
+    votes: number; // Sum of candidate confidences
+    priority: number; // Highest source priority in the group
+}
+
+export class ConflictResolver {
+    constructor(private options: ConflictResolutionOptions = {}) { }
+
+    /**
+     * Resolve the candidates of every field by confidence-weighted vote
+     * Records the winners' audit entries and every disagreement on the context
+     * @returns Winning proposal per field (fields where the OCR value won are left out)
+     */
+    resolve(
+        context: ProcessingContext,
+        candidatesByField: Map<string, FieldCandidate[]>
+    ): Map<string, FieldConfidence> {
+        const proposals = new Map<string, FieldConfidence>();
+
+        for (const [field, candidates] of candidatesByField.entries()) {
+            const ocrValue = getFieldValue(context.invoice, field);
+            const ocr: FieldCandidate[] = ocrValue === null || ocrValue === undefined || ocrValue === ''
+                ? []
+                : [{ proposal: { field, value: ocrValue, confidence: this.options.ocrVote ?? OCR_VOTE, source: 'OCR', reasoning: 'Extracted value' } }];
+
+            const groups = groupByValue([...candidates, ...ocr]);
+            const [winner, runnerUp] = groups;
+
+            const best = winner.candidates
+                .filter(candidate => candidate.proposal.source !== 'OCR')
+                .sort((a, b) => b.proposal.confidence - a.proposal.confidence)[0];
+
+            if (!best) {
+                // The extracted value outvoted every rule: no proposal, the OCR value stays
+                this.recordConflict(context, field, groups, ocr[0].proposal);
+                continue;
+            }
+
+            const ocrAgrees = ocr.length > 0 && winner.candidates.includes(ocr[0]);
+            const confidence = clamp(
+                best.proposal.confidence
+                + (ocrAgrees ? this.options.agreementBonus ?? 0.05 : 0)
+                - (runnerUp ? this.options.disagreementPenalty ?? 0.05 : 0)
+            );
+
+            const resolved = { ...best.proposal, confidence };
+            proposals.set(field, resolved);
+            if (best.audit) context.auditTrail.push({ ...best.audit, confidence });
+
+            if (runnerUp) this.recordConflict(context, field, groups, resolved);
+        }
+
+        return proposals;
+    }
+
+    private recordConflict(
+        context: ProcessingContext,
+        field: string,
+        groups: ValueGroup[],
+        resolved: FieldConfidence
+    ): void {
+        const [winner, runnerUp] = groups;
+        const margin = winner.votes - runnerUp.votes;
+        const close = margin < (this.options.closeMargin ?? 0.1);
+        const other = topCandidate(runnerUp).proposal;
+
+        context.conflicts.push({
+            field,
+            candidates: groups.flatMap(group => group.candidates.map(candidate => candidate.proposal)),
+            resolved,
+            runnerUp: other,
+            margin,
+            close,
+        });
+
+        context.auditTrail.push({
+            step: 'RESOLVE',
+            action: close ? 'CLOSE_CONFLICT' : 'CONFLICT_RESOLVED',
+            field,
+            oldValue: other.value,
+            newValue: resolved.value,
+            reasoning: `Chose ${JSON.stringify(resolved.value)} (${describe(winner)}) over ${JSON.stringify(other.value)} (${describe(runnerUp)}), margin ${margin.toFixed(2)}`,
+            confidence: resolved.confidence,
+            timestamp: getCurrentTimestamp(),
+        });
+    }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Group candidates proposing the same value, strongest vote first
+ */
+function groupByValue(candidates: FieldCandidate[]): ValueGroup[] {
+    const groups: ValueGroup[] = [];
+
+    for (const candidate of candidates) {
+        const group = groups.find(g => valuesMatch(g.candidates[0].proposal.value, candidate.proposal.value));
+        const priority = SOURCE_PRIORITY[candidate.proposal.source];
+
+        if (group) {
+            group.candidates.push(candidate);
+            group.votes += candidate.proposal.confidence;
+            group.priority = Math.max(group.priority, priority);
+        } else {
+            groups.push({ candidates: [candidate], votes: candidate.proposal.confidence, priority });
+        }
+    }
+
+    return groups.sort((a, b) => b.votes - a.votes || b.priority - a.priority);
+}
+
+function topCandidate(group: ValueGroup): FieldCandidate {
+    return [...group.candidates].sort((a, b) => b.proposal.confidence - a.proposal.confidence)[0];
+}
+
+function describe(group: ValueGroup): string {
+    const sources = group.candidates.map(c => c.proposal.ruleId || c.proposal.source);
+    return `${sources.join(' + ')}, vote ${group.votes.toFixed(2)}`;
+}
+
+function clamp(confidence: number): number {
+    return Math.min(0.99, Math.max(0.1, confidence));
+}
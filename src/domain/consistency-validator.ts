@@ -0,0 +1,243 @@
+/**
+ * Consistency Validator
+ * Checks the arithmetic between net, tax, total and line amounts and proposes
+ * a corrected value when exactly one field explains every inconsistency
+ */
+
+import { normalizeTaxRate } from '../core/logic/engine.js';
+import {
+    ProcessingContext,
+    FieldConfidence,
+    ArithmeticRule,
+    ArithmeticViolation,
+} from '../types/index.js';
+import { roundAmount } from '../utils/amount.js';
+import { getCurrentTimestamp } from '../utils/date.js';
+import { getFieldValue, setFieldValue } from '../utils/diff.js';
+
+/**
+ * Consistency validation configuration
+ */
+export interface ConsistencyOptions {
+    absoluteTolerance?: number; // Rounding allowed per amount, e.g. one cent (default: 0.01)
+    relativeTolerance?: number; // Share of the expected value always allowed (default: 0.0005)
+    correctionConfidence?: number; // Confidence of a proposed correction (default: 0.85)
+}
+
+/**
+ * One arithmetic relation over the current values
+ */
+interface Relation {
+    rule: ArithmeticRule;
+    field: string; // Field the others determine
+    fields: string[];
+    terms: number; // Rounded amounts the result is built from (scales the absolute tolerance)
+    compute: (values: any) => number | null; // Value of field implied by the others
+    solve: (values: any, field: string) => number | null; // Value of any numeric field that satisfies the relation
+}
+
+export class ConsistencyValidator {
+    constructor(private options: ConsistencyOptions = {}) { }
+
+    /**
+     * Validate the invoice with the proposals applied
+     * Records violations on the context and proposes the correction if exactly one
+     * extracted field can repair every violated rule without breaking another
+     */
+    apply(context: ProcessingContext, proposals: Map<string, FieldConfidence>): void {
+        const values = JSON.parse(JSON.stringify(context.invoice));
+        for (const [field, proposal] of proposals.entries()) {
+            setFieldValue(values, field, proposal.value);
+        }
+
+        const relations = buildRelations(values);
+        const violations = this.validate(relations, values);
+        if (violations.length === 0) return;
+
+        // Values proposed from memory are not second-guessed; only extracted ones are corrected
+        const correction = this.findCorrection(relations, violations, values, proposals);
+
+        for (const violation of violations) {
+            context.violations.push({ ...violation, correction: correction || undefined });
+            context.auditTrail.push({
+                step: 'VALIDATE',
+                action: 'ARITHMETIC_VIOLATION',
+                field: violation.field,
+                oldValue: violation.actual,
+                newValue: violation.expected,
+                reasoning: describe(violation),
+                timestamp: getCurrentTimestamp(),
+            });
+        }
+
+        if (!correction) return;
+
+        const confidence = this.options.correctionConfidence ?? 0.85;
+        const reasoning = `Only ${correction.field} is inconsistent: ${correction.value} satisfies ${[...new Set(violations.map(v => v.rule))].join(', ')}`;
+
+        proposals.set(correction.field, {
+            field: correction.field,
+            value: correction.value,
+            confidence,
+            source: 'VALIDATION',
+            reasoning,
+        });
+
+        context.auditTrail.push({
+            step: 'APPLY',
+            action: 'ARITHMETIC_CORRECTION',
+            field: correction.field,
+            oldValue: getFieldValue(values, correction.field),
+            newValue: correction.value,
+            reasoning,
+            confidence,
+            timestamp: getCurrentTimestamp(),
+        });
+    }
+
+    private validate(relations: Relation[], values: any): ArithmeticViolation[] {
+        return relations.flatMap((relation): ArithmeticViolation[] => {
+            const expected = relation.compute(values);
+            const actual = getFieldValue(values, relation.field);
+            if (expected === null || typeof actual !== 'number') return [];
+
+            const tolerance = this.tolerance(relation, expected);
+            if (Math.abs(expected - actual) <= tolerance) return [];
+
+            return [{
+                rule: relation.rule,
+                field: relation.field,
+                fields: relation.fields,
+                expected: roundAmount(expected),
+                actual,
+                tolerance,
+            }];
+        });
+    }
+
+    /**
+     * The single field whose corrected value repairs every violation
+     * Tax rates are never corrected: a different rate is a different tax treatment
+     * @returns null if no field or more than one field would do
+     */
+    private findCorrection(
+        relations: Relation[],
+        violations: ArithmeticViolation[],
+        values: any,
+        proposals: Map<string, FieldConfidence>
+    ): { field: string; value: number } | null {
+        const violated = relations.filter(relation => violations.some(v => v.rule === relation.rule && v.field === relation.field));
+        const candidates = violated[0].fields.filter(field =>
+            !field.endsWith('/taxRate')
+            && !proposals.has(field)
+            && violated.every(relation => relation.fields.includes(field))
+        );
+
+        const corrections = candidates.flatMap(field => {
+            const value = violated[0].solve(values, field);
+            if (value === null || !Number.isFinite(value) || value <= 0) return [];
+
+            const corrected = JSON.parse(JSON.stringify(values));
+            setFieldValue(corrected, field, roundAmount(value));
+
+            return this.validate(relations, corrected).length === 0 ? [{ field, value: roundAmount(value) }] : [];
+        });
+
+        return corrections.length === 1 ? corrections[0] : null;
+    }
+
+    private tolerance(relation: Relation, expected: number): number {
+        return Math.max(
+            (this.options.absoluteTolerance ?? 0.01) * relation.terms,
+            (this.options.relativeTolerance ?? 0.0005) * Math.abs(expected)
+        );
+    }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Relations whose fields are all present
+ */
+function buildRelations(values: any): Relation[] {
+    const relations: Relation[] = [];
+    const num = (field: string) => {
+        const value = getFieldValue(values, field);
+        return typeof value === 'number' ? value : null;
+    };
+
+    if (num('netAmount') !== null && num('taxAmount') !== null && num('totalAmount') !== null) {
+        relations.push({
+            rule: 'TOTAL',
+            field: 'totalAmount',
+            fields: ['totalAmount', 'netAmount', 'taxAmount'],
+            terms: 2,
+            compute: v => v.netAmount + v.taxAmount,
+            solve: (v, field) => {
+                if (field === 'totalAmount') return v.netAmount + v.taxAmount;
+                if (field === 'netAmount') return v.totalAmount - v.taxAmount;
+                return v.totalAmount - v.netAmount;
+            },
+        });
+    }
+
+    const lines: any[] = Array.isArray(values.lineItems) ? values.lineItems : [];
+
+    lines.forEach((line, index) => {
+        if (typeof line.quantity !== 'number' || typeof line.unitPrice !== 'number' || typeof line.amount !== 'number') return;
+
+        const path = `lineItems/${index}`;
+        relations.push({
+            rule: 'LINE_AMOUNT',
+            field: `${path}/amount`,
+            fields: [`${path}/amount`, `${path}/quantity`, `${path}/unitPrice`],
+            terms: 1,
+            compute: v => v.lineItems[index].quantity * v.lineItems[index].unitPrice,
+            solve: (v, field) => {
+                const { quantity, unitPrice, amount } = v.lineItems[index];
+                if (field.endsWith('/amount')) return quantity * unitPrice;
+                if (field.endsWith('/quantity')) return unitPrice !== 0 ? amount / unitPrice : null;
+                return quantity !== 0 ? amount / quantity : null;
+            },
+        });
+    });
+
+    const taxed = lines.length > 0 && lines.every(line => typeof line.amount === 'number' && typeof line.taxRate === 'number');
+
+    if (taxed && num('taxAmount') !== null) {
+        const lineTax = (v: any, skip?: number) => v.lineItems.reduce(
+            (sum: number, line: any, index: number) => index === skip ? sum : sum + line.amount * normalizeTaxRate(line.taxRate),
+            0
+        );
+
+        relations.push({
+            rule: 'LINE_TAX',
+            field: 'taxAmount',
+            fields: ['taxAmount', ...lines.flatMap((_, index) => [`lineItems/${index}/amount`, `lineItems/${index}/taxRate`])],
+            terms: lines.length,
+            compute: v => lineTax(v),
+            solve: (v, field) => {
+                if (field === 'taxAmount') return lineTax(v);
+
+                // A line amount: what is left of the tax after the other lines, at the line's rate
+                const index = Number(field.split('/')[1]);
+                const rate = normalizeTaxRate(v.lineItems[index].taxRate);
+                return rate > 0 ? (v.taxAmount - lineTax(v, index)) / rate : null;
+            },
+        });
+    }
+
+    return relations;
+}
+
+function describe(violation: ArithmeticViolation): string {
+    const implied = {
+        TOTAL: 'netAmount + taxAmount',
+        LINE_AMOUNT: 'quantity * unitPrice',
+        LINE_TAX: 'line amounts * tax rates',
+    }[violation.rule];
+
+    return `${implied} = ${violation.expected.toFixed(2)}, but ${violation.field} is ${violation.actual.toFixed(2)} (tolerance ${violation.tolerance.toFixed(2)})`;
+}
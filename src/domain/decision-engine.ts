@@ -4,11 +4,51 @@
  */
 
 import { MemoryStore } from '../core/memory/store.js';
-import { ProcessingContext, FieldConfidence, OutputContract, Invoice } from '../types/index.js';
+import { PurchaseOrderMatcher } from './po-matcher.js';
+import { DuplicateDetector } from './duplicate-detector.js';
+import { AnomalyDetector, profileInvoice } from './anomaly-detector.js';
+import { OCR_CONFIDENCE } from './conflict-resolver.js';
+import { RecallEngine } from './recall-engine.js';
+import { DEFAULT_DECISION_POLICY, EffectivePolicy, resolveDecisionPolicy } from './decision-policy.js';
+import { executeRule } from '../core/logic/engine.js';
+import {
+    ProcessingContext,
+    FieldConfidence,
+    OutputContract,
+    Invoice,
+    ResolutionOutcome,
+    ThreeWayMatch,
+    DuplicateCandidate,
+    FieldResult,
+    ReviewReason,
+    ReviewReasonCode,
+    ArithmeticRule,
+    DecisionPolicy,
+    EscalationCheck,
+} from '../types/index.js';
 import { getCurrentTimestamp } from '../utils/date.js';
+import { valuesMatch, getFieldValue, setFieldValue } from '../utils/diff.js';
+
+const OUTCOME_SEVERITY: Record<ResolutionOutcome, number> = {
+    ACCEPTED: 0,
+    MODIFIED: 1,
+    REJECTED: 2,
+};
+
+const ARITHMETIC_REASON_CODES: Record<ArithmeticRule, ReviewReasonCode> = {
+    TOTAL: 'TOTAL_MISMATCH',
+    LINE_AMOUNT: 'LINE_AMOUNT_MISMATCH',
+    LINE_TAX: 'TAX_MISMATCH',
+};
 
 export class DecisionEngine {
-    constructor(private store: MemoryStore) { }
+    constructor(
+        private store: MemoryStore,
+        private poMatcher: PurchaseOrderMatcher = new PurchaseOrderMatcher(store),
+        private duplicateDetector: DuplicateDetector = new DuplicateDetector(store, new RecallEngine(store)),
+        private policy: DecisionPolicy = DEFAULT_DECISION_POLICY,
+        private anomalyDetector: AnomalyDetector = new AnomalyDetector(store)
+    ) { }
 
     /**
      * Make final decision on invoice processing
@@ -27,39 +67,60 @@ export class DecisionEngine {
             invoiceNumber: invoice.invoiceNumber,
         };
 
-        // Apply proposals
-        const confidences: number[] = [];
+        // Apply proposals (line proposals like "lineItems/0/sku" patch a copy of the lines)
+        const fields: Record<string, FieldResult> = {};
 
         for (const [field, proposal] of proposals.entries()) {
-            output[field] = proposal.value;
-            confidences.push(proposal.confidence);
+            if (field.includes('/')) {
+                const [root, index] = field.split('/');
+                if (!(root in output)) output[root] = JSON.parse(JSON.stringify((invoice as any)[root] ?? []));
+
+                // Rows the extraction missed start blank (a table rule may not read descriptions)
+                for (let row = output[root].length; row <= Number(index); row++) {
+                    output[root].push({ description: '' });
+                }
+                setFieldValue(output, field, proposal.value);
+            } else {
+                output[field] = proposal.value;
+            }
+
+            fields[field] = {
+                value: proposal.value,
+                confidence: proposal.confidence,
+                source: proposal.source,
+                ruleId: proposal.ruleId,
+                reasoning: proposal.reasoning,
+            };
         }
 
         // Fill remaining fields from original invoice
-        const fields = [
+        const ocrFields = [
             'date', 'serviceDate', 'dueDate', 'totalAmount', 'taxAmount',
             'netAmount', 'currency', 'lineItems', 'paymentTerms', 'poNumber'
         ];
 
-        for (const field of fields) {
+        for (const field of ocrFields) {
             if (!(field in output) && (invoice as any)[field] !== undefined) {
-                output[field] = (invoice as any)[field];
+                const value = (invoice as any)[field];
+                output[field] = value;
 
                 // Mark as OCR with lower confidence if empty
-                if ((invoice as any)[field] === null || (invoice as any)[field] === undefined) {
-                    confidences.push(0.0);
-                } else {
-                    confidences.push(0.70); // OCR baseline
-                }
+                fields[field] = value === null
+                    ? { value, confidence: 0.0, source: 'OCR', reasoning: 'Not extracted' }
+                    : { value, confidence: OCR_CONFIDENCE, source: 'OCR', reasoning: 'Extracted value (OCR baseline)' };
             }
         }
 
-        // Calculate overall confidence
-        const overallConfidence = confidences.length > 0
-            ? confidences.reduce((a, b) => a + b, 0) / confidences.length
-            : 0.0;
+        // Due date and Skonto deadlines from the payment terms
+        if (context.paymentSchedule) output.paymentSchedule = context.paymentSchedule;
+
+        // Resolve the vendor's decision policy
+        const policy = resolveDecisionPolicy(this.policy, vendorNames(context));
 
-        // Check for duplicate
+        // Calculate overall confidence (critical fields weigh more)
+        const overallConfidence = weightedConfidence(fields, policy);
+
+        // Check for duplicates (exact resends and reformatted ones)
         const fingerprint = this.store.generateInvoiceFingerprint(
             invoice.vendor,
             invoice.invoiceNumber,
@@ -67,7 +128,36 @@ export class DecisionEngine {
             invoice.totalAmount
         );
 
-        const isDuplicate = this.store.isDuplicate(fingerprint);
+        const duplicateCandidates = this.duplicateDetector.findCandidates(invoice);
+        const duplicate = duplicateCandidates.find(candidate => candidate.isDuplicate) || null;
+
+        if (duplicateCandidates.length > 0) {
+            output.duplicateCandidates = duplicateCandidates;
+            if (duplicate) output.duplicateOf = duplicate.invoiceId;
+
+            const best = duplicateCandidates[0];
+            context.auditTrail.push({
+                step: 'MATCH',
+                action: duplicate ? 'DUPLICATE_DETECTED' : 'DUPLICATE_CANDIDATE',
+                reasoning: `Most similar processed invoice: ${best.invoiceId} (similarity ${best.similarity.toFixed(2)}: ${best.reasons.join(', ')})`,
+                confidence: best.similarity,
+                timestamp: getCurrentTimestamp(),
+            });
+        }
+
+        // Three-way match of the final PO number and line items
+        const poMatch = this.poMatcher.check(output);
+        if (poMatch) {
+            output.poMatch = poMatch;
+            context.auditTrail.push({
+                step: 'MATCH',
+                action: poMatch.status === 'MATCHED' ? 'THREE_WAY_MATCHED' : 'THREE_WAY_MISMATCH',
+                reasoning: poMatch.status === 'MATCHED'
+                    ? `Invoice matches PO ${poMatch.poNumber} and ${poMatch.receiptIds.length} goods receipt(s)`
+                    : poMatch.issues.map(issue => issue.message).join('; '),
+                timestamp: getCurrentTimestamp(),
+            });
+        }
 
         // Determine if human review is required
         const reviewDecision = this.shouldEscalate(
@@ -75,7 +165,9 @@ export class DecisionEngine {
             output,
             overallConfidence,
             proposals,
-            isDuplicate
+            duplicateCandidates,
+            poMatch,
+            policy
         );
 
         // Build output contract
@@ -83,19 +175,24 @@ export class DecisionEngine {
             ...output,
             requiresHumanReview: reviewDecision.required,
             reasoning: reviewDecision.reasoning,
+            reviewReasons: reviewDecision.reasons,
             confidence: overallConfidence,
+            fields,
             auditTrail: context.auditTrail,
             processedAt: getCurrentTimestamp(),
         };
 
-        // Record processing
-        if (!isDuplicate) {
+        // Record processing with the final values for vendor statistics (an exact resend keeps the original record)
+        if (!this.store.isDuplicate(fingerprint)) {
             this.store.recordProcessedInvoice(
                 fingerprint,
                 invoice.id,
                 invoice.vendor,
                 invoice.invoiceNumber,
-                invoice.totalAmount
+                invoice.totalAmount,
+                invoice.date,
+                context.vendorMemory?.id,
+                profileInvoice(output, invoice.rawText)
             );
         }
 
@@ -103,8 +200,11 @@ export class DecisionEngine {
         contract.auditTrail.push({
             step: 'DECIDE',
             action: reviewDecision.required ? 'ESCALATE' : 'AUTO_APPROVE',
-            reasoning: reviewDecision.reasoning,
+            reasoning: policy.vendorOverride
+                ? `${reviewDecision.reasoning} (policy ${policy.version}, overrides for "${policy.vendorOverride}")`
+                : `${reviewDecision.reasoning} (policy ${policy.version})`,
             confidence: overallConfidence,
+            policyVersion: policy.version,
             timestamp: getCurrentTimestamp(),
         });
 
@@ -113,99 +213,338 @@ export class DecisionEngine {
 
     /**
      * Determine if invoice should be escalated for human review
+     * Runs every check of the policy; review is required if any reason is above INFO
      */
     private shouldEscalate(
         context: ProcessingContext,
         output: any,
         overallConfidence: number,
         proposals: Map<string, FieldConfidence>,
-        isDuplicate: boolean
-    ): { required: boolean; reasoning: string } {
-        // Rule 1: Duplicate detection
-        if (isDuplicate) {
-            return {
-                required: true,
-                reasoning: 'Duplicate invoice detected: matches fingerprint of previously processed invoice',
-            };
-        }
+        duplicateCandidates: DuplicateCandidate[],
+        poMatch: ThreeWayMatch | null,
+        policy: EffectivePolicy
+    ): { required: boolean; reasoning: string; reasons: ReviewReason[] } {
+        const reasons = policy.checks.flatMap(check =>
+            this.runCheck(check, context, output, overallConfidence, proposals, duplicateCandidates, poMatch, policy)
+        );
+        const blocking = reasons.filter(reason => reason.severity !== 'INFO');
 
-        // Rule 2: New vendor (cold start)
-        if (!context.vendorMemory) {
+        if (blocking.length > 0) {
             return {
                 required: true,
-                reasoning: 'New vendor: no existing memory found, requires initial human review',
+                reasoning: blocking.map(reason => reason.message).join('; '),
+                reasons,
             };
         }
 
-        // Rule 3: Critical fields missing or low confidence
-        const criticalFields = ['totalAmount', 'date', 'vendor'];
-        for (const field of criticalFields) {
-            const proposal = proposals.get(field);
-            const value = output[field];
+        // All checks passed
+        return {
+            required: false,
+            reasoning: `High confidence automation: overall score ${overallConfidence.toFixed(2)}`,
+            reasons,
+        };
+    }
 
-            if (!value || (proposal && proposal.confidence < 0.90)) {
-                return {
-                    required: true,
-                    reasoning: `Critical field "${field}" is missing or has low confidence`,
-                };
+    /**
+     * Run one escalation check
+     * @returns Review reasons found by the check (empty if it passed)
+     */
+    private runCheck(
+        check: EscalationCheck,
+        context: ProcessingContext,
+        output: any,
+        overallConfidence: number,
+        proposals: Map<string, FieldConfidence>,
+        duplicateCandidates: DuplicateCandidate[],
+        poMatch: ThreeWayMatch | null,
+        policy: EffectivePolicy
+    ): ReviewReason[] {
+        switch (check) {
+            case 'DUPLICATE':
+                return duplicateCandidates.slice(0, 1).map(candidate => ({
+                    code: candidate.isDuplicate ? 'DUPLICATE' : 'POSSIBLE_DUPLICATE',
+                    severity: candidate.isDuplicate ? 'CRITICAL' : 'INFO',
+                    expected: candidate.invoiceId,
+                    actual: candidate.similarity,
+                    message: candidate.isDuplicate
+                        ? `Duplicate invoice detected: matches ${candidate.invoiceId} processed ${candidate.processedAt} (similarity ${candidate.similarity.toFixed(2)}: ${candidate.reasons.join(', ')})`
+                        : `Similar to ${candidate.invoiceId} (similarity ${candidate.similarity.toFixed(2)}: ${candidate.reasons.join(', ')})`,
+                }));
+
+            case 'NEW_VENDOR':
+                // Cold start
+                return context.vendorMemory ? [] : [{
+                    code: 'NEW_VENDOR',
+                    severity: 'WARNING',
+                    field: 'vendor',
+                    actual: output.vendor,
+                    message: 'New vendor: no existing memory found, requires initial human review',
+                }];
+
+            case 'CRITICAL_FIELDS':
+                return policy.criticalFields.flatMap((field): ReviewReason[] => {
+                    const proposal = proposals.get(field);
+                    const value = output[field];
+
+                    if (!value) {
+                        return [{
+                            code: 'CRITICAL_FIELD_MISSING',
+                            severity: 'CRITICAL',
+                            field,
+                            message: `Critical field "${field}" is missing`,
+                        }];
+                    }
+
+                    if (proposal && proposal.confidence < policy.criticalFieldConfidence) {
+                        return [{
+                            code: 'CRITICAL_FIELD_LOW_CONFIDENCE',
+                            severity: 'WARNING',
+                            field,
+                            expected: policy.criticalFieldConfidence,
+                            actual: proposal.confidence,
+                            ruleId: proposal.ruleId,
+                            message: `Critical field "${field}" has low confidence (${proposal.confidence.toFixed(2)} < ${policy.criticalFieldConfidence.toFixed(2)})`,
+                        }];
+                    }
+
+                    return [];
+                });
+
+            case 'THREE_WAY_MATCH':
+                // Invoice vs PO vs goods receipts
+                if (!poMatch || poMatch.status !== 'MISMATCH') return [];
+
+                return poMatch.issues.map(issue => ({
+                    code: issue.kind,
+                    severity: 'CRITICAL',
+                    field: issue.lineIndex !== undefined ? `lineItems/${issue.lineIndex}` : 'poNumber',
+                    expected: issue.expected,
+                    actual: issue.actual,
+                    message: `Three-way match failed for PO ${poMatch.poNumber}: ${issue.message}`,
+                }));
+
+            case 'FIELD_CONFLICTS':
+                // Disagreements between rules or with the OCR value; close ones need review
+                return context.conflicts.map(conflict => ({
+                    code: 'FIELD_CONFLICT',
+                    severity: conflict.close ? 'WARNING' : 'INFO',
+                    field: conflict.field,
+                    expected: conflict.resolved.value,
+                    actual: conflict.runnerUp.value,
+                    ruleId: conflict.resolved.ruleId,
+                    message: conflict.close
+                        ? `Conflicting values for "${conflict.field}": ${JSON.stringify(conflict.resolved.value)} (${conflict.resolved.source}) vs ${JSON.stringify(conflict.runnerUp.value)} (${conflict.runnerUp.source}) are too close to call`
+                        : `Resolved conflict for "${conflict.field}": ${JSON.stringify(conflict.resolved.value)} (${conflict.resolved.source}) over ${JSON.stringify(conflict.runnerUp.value)} (${conflict.runnerUp.source})`,
+                }));
+
+            case 'OVERALL_CONFIDENCE':
+                return overallConfidence < policy.overallConfidence ? [{
+                    code: 'LOW_CONFIDENCE',
+                    severity: 'WARNING',
+                    expected: policy.overallConfidence,
+                    actual: overallConfidence,
+                    message: `Overall confidence (${overallConfidence.toFixed(2)}) below threshold (${policy.overallConfidence.toFixed(2)})`,
+                }] : [];
+
+            case 'AMOUNT_MISMATCH': {
+                // Anomaly detection (total != sum of line items)
+                if (!output.lineItems || output.lineItems.length === 0 || !output.totalAmount) return [];
+
+                const lineItemSum = output.lineItems.reduce(
+                    (sum: number, item: any) => sum + (item.amount || 0),
+                    0
+                );
+
+                const diff = Math.abs(output.totalAmount - lineItemSum);
+                return diff > policy.amountTolerance && lineItemSum > 0 ? [{
+                    code: 'AMOUNT_MISMATCH',
+                    severity: 'CRITICAL',
+                    field: 'totalAmount',
+                    expected: lineItemSum,
+                    actual: output.totalAmount,
+                    message: `Total amount mismatch: invoice total (${output.totalAmount}) differs from line item sum (${lineItemSum})`,
+                }] : [];
             }
-        }
 
-        // Rule 4: Global confidence threshold
-        if (overallConfidence < 0.80) {
-            return {
-                required: true,
-                reasoning: `Overall confidence (${overallConfidence.toFixed(2)}) below threshold (0.80)`,
-            };
-        }
+            case 'ARITHMETIC':
+                // Found before the decision; a violation with a proposed correction only needs confirmation
+                return context.violations.map(violation => ({
+                    code: ARITHMETIC_REASON_CODES[violation.rule],
+                    severity: violation.correction ? 'WARNING' : 'CRITICAL',
+                    field: violation.field,
+                    expected: violation.expected,
+                    actual: violation.actual,
+                    message: violation.correction
+                        ? `Arithmetic mismatch for "${violation.field}" (expected ${violation.expected}, got ${violation.actual}); corrected ${violation.correction.field} to ${violation.correction.value}`
+                        : `Arithmetic mismatch for "${violation.field}" (expected ${violation.expected}, got ${violation.actual}); more than one field may be wrong`,
+                }));
 
-        // Rule 5: Anomaly detection (total != sum of line items)
-        if (output.lineItems && output.lineItems.length > 0 && output.totalAmount) {
-            const lineItemSum = output.lineItems.reduce(
-                (sum: number, item: any) => sum + (item.amount || 0),
-                0
-            );
+            case 'VENDOR_ANOMALIES': {
+                // Compared with the vendor's processed invoices (not counting earlier runs of this one)
+                const statistics = this.anomalyDetector.getStatistics(
+                    context.vendorMemory ?? null,
+                    vendorNames(context),
+                    context.invoice.id
+                );
+                return this.anomalyDetector.detect(output, context.invoice.rawText, statistics);
+            }
 
-            const diff = Math.abs(output.totalAmount - lineItemSum);
-            if (diff > 0.01 && lineItemSum > 0) {
-                return {
-                    required: true,
-                    reasoning: `Total amount mismatch: invoice total (${output.totalAmount}) differs from line item sum (${lineItemSum})`,
+            case 'POLICY_RULES': {
+                const data = {
+                    ...output,
+                    confidence: overallConfidence,
+                    fieldConfidence: Object.fromEntries(
+                        [...proposals.entries()].map(([field, proposal]) => [field, proposal.confidence])
+                    ),
                 };
+
+                return policy.rules
+                    .filter(rule => executeRule(rule.when, data))
+                    .map(rule => ({
+                        code: 'POLICY_RULE',
+                        severity: rule.severity,
+                        ruleId: rule.id,
+                        message: `Policy rule "${rule.id}": ${rule.reasoning}`,
+                    }));
             }
         }
-
-        // All checks passed
-        return {
-            required: false,
-            reasoning: `High confidence automation: overall score ${overallConfidence.toFixed(2)}`,
-        };
     }
 
     /**
      * Record resolution outcomes for reinforcement learning
+     * Compares each rule-backed proposal with the human-approved value; a rule that
+     * set several fields is recorded once with its worst field outcome
+     * @param losing Rule-backed candidates outvoted in conflict resolution (scored, not returned)
+     * @returns Outcome per proposed field
      */
     recordResolutions(
         proposals: Map<string, FieldConfidence>,
         humanCorrection: Invoice,
-        _outcome: 'ACCEPTED' | 'REJECTED'
-    ): void {
+        losing: FieldConfidence[] = []
+    ): Map<string, ResolutionOutcome> {
+        const outcomes = new Map<string, ResolutionOutcome>();
+        const ruleOutcomes = new Map<string, ResolutionOutcome>();
+
         for (const [field, proposal] of proposals.entries()) {
-            if (proposal.ruleId) {
-                const humanValue = (humanCorrection as any)[field];
-                const systemValue = proposal.value;
-
-                // Determine if this specific field was accepted or rejected
-                const fieldOutcome = (humanValue === systemValue || humanValue === undefined)
-                    ? 'ACCEPTED'
-                    : 'REJECTED';
-
-                this.store.recordResolution(
-                    proposal.ruleId,
-                    humanCorrection.id,
-                    fieldOutcome
-                );
+            if (!proposal.ruleId) continue;
+
+            const humanValue = getFieldValue(humanCorrection, field);
+            const fieldOutcome = this.classifyOutcome(proposal.value, humanValue);
+            outcomes.set(field, fieldOutcome);
+
+            recordWorst(ruleOutcomes, proposal.ruleId, fieldOutcome);
+        }
+
+        for (const candidate of losing) {
+            if (!candidate.ruleId) continue;
+
+            const humanValue = getFieldValue(humanCorrection, candidate.field);
+            recordWorst(ruleOutcomes, candidate.ruleId, this.classifyOutcome(candidate.value, humanValue));
+        }
+
+        for (const [ruleId, outcome] of ruleOutcomes.entries()) {
+            this.store.recordResolution(ruleId, humanCorrection.id, outcome);
+        }
+
+        return outcomes;
+    }
+
+    /**
+     * Rebuild the rule-backed proposals behind an output contract
+     * Read from the fields section; outputs without one fall back to the last
+     * APPLY entry per field, which is the proposal that reached the output
+     */
+    proposalsFromContract(contract: OutputContract): Map<string, FieldConfidence> {
+        const proposals = new Map<string, FieldConfidence>();
+
+        for (const [field, result] of Object.entries(contract.fields || {})) {
+            if (!result.ruleId) continue;
+
+            proposals.set(field, {
+                field,
+                value: getFieldValue(contract, field) ?? result.value,
+                confidence: result.confidence,
+                source: result.source,
+                ruleId: result.ruleId,
+                reasoning: result.reasoning || '',
+            });
+        }
+
+        if (proposals.size > 0) return proposals;
+
+        for (const entry of contract.auditTrail) {
+            if (entry.step !== 'APPLY' || !entry.field || !entry.ruleId) continue;
+
+            proposals.set(entry.field, {
+                field: entry.field,
+                value: getFieldValue(contract, entry.field) ?? entry.newValue,
+                confidence: entry.confidence ?? 0,
+                source: entry.action === 'CORRECTION_RULE' ? 'CORRECTION_RULE' : 'VENDOR_PATTERN',
+                ruleId: entry.ruleId,
+                reasoning: entry.reasoning,
+            });
+        }
+
+        return proposals;
+    }
+
+    /**
+     * Classify how the human treated a proposed value
+     * - ACCEPTED: value kept (or field left untouched)
+     * - MODIFIED: value partially kept (one contains the other)
+     * - REJECTED: value removed or replaced
+     */
+    private classifyOutcome(systemValue: any, humanValue: any): ResolutionOutcome {
+        if (humanValue === undefined || valuesMatch(systemValue, humanValue)) {
+            return 'ACCEPTED';
+        }
+
+        if (humanValue === null || humanValue === '') {
+            return 'REJECTED';
+        }
+
+        if (typeof systemValue === 'string' && typeof humanValue === 'string') {
+            const system = systemValue.trim().toLowerCase();
+            const human = humanValue.trim().toLowerCase();
+
+            if (system && (human.includes(system) || system.includes(human))) {
+                return 'MODIFIED';
             }
         }
+
+        return 'REJECTED';
     }
 }
+
+/**
+ * Keep the most severe outcome per rule
+ */
+function recordWorst(outcomes: Map<string, ResolutionOutcome>, ruleId: string, outcome: ResolutionOutcome): void {
+    const previous = outcomes.get(ruleId);
+    if (!previous || OUTCOME_SEVERITY[outcome] > OUTCOME_SEVERITY[previous]) {
+        outcomes.set(ruleId, outcome);
+    }
+}
+
+/**
+ * Names the invoice's vendor is known by (invoice spelling, vendor memory name)
+ */
+function vendorNames(context: ProcessingContext): string[] {
+    return [context.invoice.vendor, context.vendorMemory?.vendorName].filter((name): name is string => !!name);
+}
+
+/**
+ * Average field confidence weighted by the policy (critical fields count criticalFieldWeight times)
+ */
+function weightedConfidence(fields: Record<string, FieldResult>, policy: EffectivePolicy): number {
+    let total = 0;
+    let weight = 0;
+
+    for (const [field, result] of Object.entries(fields)) {
+        const w = policy.criticalFields.includes(field) ? policy.criticalFieldWeight : 1;
+        total += w * result.confidence;
+        weight += w;
+    }
+
+    return weight > 0 ? total / weight : 0.0;
+}
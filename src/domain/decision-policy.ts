@@ -0,0 +1,76 @@
+/**
+ * Decision Policy
+ * Declarative escalation thresholds and checks with per-vendor overrides
+ */
+
+import fs from 'fs';
+
+import { DecisionPolicy, DecisionPolicySchema, PolicySettings } from '../types/index.js';
+import { normalizeVendorName } from '../utils/fuzzy.js';
+
+/**
+ * Settings used where a policy leaves them unset
+ */
+export const DEFAULT_POLICY_SETTINGS: PolicySettings = {
+    checks: [
+        'DUPLICATE',
+        'NEW_VENDOR',
+        'CRITICAL_FIELDS',
+        'THREE_WAY_MATCH',
+        'FIELD_CONFLICTS',
+        'OVERALL_CONFIDENCE',
+        'AMOUNT_MISMATCH',
+        'ARITHMETIC',
+        'VENDOR_ANOMALIES',
+        'POLICY_RULES',
+    ],
+    criticalFields: ['totalAmount', 'date', 'vendor'],
+    criticalFieldConfidence: 0.90,
+    overallConfidence: 0.80,
+    amountTolerance: 0.01,
+    criticalFieldWeight: 2,
+    rules: [],
+};
+
+/**
+ * Policy applied when the agent is not given one
+ */
+export const DEFAULT_DECISION_POLICY: DecisionPolicy = {
+    version: 'builtin-1',
+    defaults: {},
+    vendors: {},
+};
+
+/**
+ * Settings in effect for one invoice
+ */
+export interface EffectivePolicy extends PolicySettings {
+    version: string;
+    vendorOverride?: string; // Vendor key of the override applied
+}
+
+/**
+ * Load and validate a decision policy from a JSON file
+ * @throws ZodError if the policy is invalid
+ */
+export function loadDecisionPolicy(filePath: string): DecisionPolicy {
+    return DecisionPolicySchema.parse(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+}
+
+/**
+ * Resolve the settings for a vendor: built-in defaults, then policy defaults,
+ * then the vendor's override (each setting replaces the previous one)
+ * @param vendorNames Names the vendor is known by (invoice spelling, vendor memory name)
+ */
+export function resolveDecisionPolicy(policy: DecisionPolicy, vendorNames: string[]): EffectivePolicy {
+    const names = vendorNames.map(normalizeVendorName);
+    const vendorOverride = Object.keys(policy.vendors).find(key => names.includes(normalizeVendorName(key)));
+
+    return {
+        ...DEFAULT_POLICY_SETTINGS,
+        ...policy.defaults,
+        ...(vendorOverride ? policy.vendors[vendorOverride] : {}),
+        version: policy.version,
+        vendorOverride,
+    };
+}
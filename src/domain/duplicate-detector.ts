@@ -0,0 +1,175 @@
+/**
+ * Duplicate Detector
+ * Finds previously processed invoices that an invoice resends, tolerating
+ * reformatted invoice numbers, vendor spellings, rounded totals and shifted dates
+ */
+
+import { MemoryStore } from '../core/memory/store.js';
+import { RecallEngine } from './recall-engine.js';
+import { Invoice, VendorMemory, DuplicateCandidate, ProcessedInvoice } from '../types/index.js';
+import { daysBetween } from '../utils/date.js';
+import {
+    fuzzyMatch,
+    generateFingerprints,
+    normalizeInvoiceNumber,
+    normalizeVendorName,
+} from '../utils/fuzzy.js';
+
+/**
+ * Duplicate detection configuration
+ */
+export interface DuplicateDetectionOptions {
+    amountTolerance?: number; // Allowed relative difference of totals (default: 0.005)
+    dateWindowDays?: number; // Largest date shift of a resent invoice (default: 7)
+    threshold?: number; // Similarity from which an invoice is a duplicate (default: 0.85)
+    minSimilarity?: number; // Lowest similarity reported as candidate (default: 0.6)
+    maxCandidates?: number; // Candidates returned per invoice (default: 5)
+}
+
+/**
+ * Evidence weights of a duplicate candidate
+ */
+const SIMILARITY_WEIGHTS = {
+    invoiceNumber: 0.4,
+    vendor: 0.3,
+    amount: 0.2,
+    date: 0.1,
+};
+
+type InvoiceKey = Pick<Invoice, 'vendor' | 'invoiceNumber' | 'date' | 'totalAmount'>;
+
+export class DuplicateDetector {
+    constructor(
+        private store: MemoryStore,
+        private recallEngine: RecallEngine,
+        private options: DuplicateDetectionOptions = {}
+    ) { }
+
+    /**
+     * Rank the processed invoices an invoice may duplicate
+     * @returns Candidates at or above the minimum similarity, most similar first
+     */
+    findCandidates(invoice: InvoiceKey): DuplicateCandidate[] {
+        const minSimilarity = this.options.minSimilarity ?? 0.6;
+        const threshold = this.options.threshold ?? 0.85;
+
+        const records = this.store.findDuplicateCandidates(
+            invoice.invoiceNumber,
+            invoice.totalAmount,
+            this.amountTolerance(invoice.totalAmount)
+        );
+        if (records.length === 0) return [];
+
+        const vendorMemory = this.recallEngine.findVendorMemory(invoice.vendor);
+
+        return records
+            .map(record => this.compare(invoice, vendorMemory, record))
+            .filter(candidate => candidate.similarity >= minSimilarity)
+            .map(candidate => ({ ...candidate, isDuplicate: candidate.similarity >= threshold }))
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, this.options.maxCandidates ?? 5);
+    }
+
+    /**
+     * Score a processed invoice against the invoice (weights of missing values are left out)
+     */
+    private compare(
+        invoice: InvoiceKey,
+        vendorMemory: VendorMemory | null,
+        record: ProcessedInvoice
+    ): Omit<DuplicateCandidate, 'isDuplicate'> {
+        const scores: Array<[number, number]> = []; // [weight, score]
+        const reasons: string[] = [];
+
+        const numberScore = invoiceNumberScore(invoice.invoiceNumber, record);
+        scores.push([SIMILARITY_WEIGHTS.invoiceNumber, numberScore.score]);
+        if (numberScore.reason) reasons.push(numberScore.reason);
+
+        const vendorScore = this.vendorScore(invoice.vendor, vendorMemory, record.vendor);
+        scores.push([SIMILARITY_WEIGHTS.vendor, vendorScore]);
+        if (vendorScore === 1) {
+            reasons.push(record.vendor === invoice.vendor ? 'same vendor' : `same vendor ("${record.vendor}")`);
+        } else if (vendorScore > 0) {
+            reasons.push(`similar vendor "${record.vendor}"`);
+        }
+
+        if (invoice.totalAmount !== undefined && record.totalAmount !== undefined) {
+            const difference = Math.abs(invoice.totalAmount - record.totalAmount);
+            const withinTolerance = difference <= this.amountTolerance(invoice.totalAmount);
+            scores.push([SIMILARITY_WEIGHTS.amount, withinTolerance ? 1 : 0]);
+            if (withinTolerance) {
+                reasons.push(difference < 0.005 ? 'same total' : `total within ${difference.toFixed(2)}`);
+            }
+        }
+
+        const invoiceTime = invoice.date ? Date.parse(invoice.date) : NaN;
+        const recordTime = record.date ? Date.parse(record.date) : NaN;
+
+        if (!isNaN(invoiceTime) && !isNaN(recordTime)) {
+            const window = this.options.dateWindowDays ?? 7;
+            const days = daysBetween(invoice.date!, record.date!);
+            scores.push([SIMILARITY_WEIGHTS.date, days > window ? 0 : 1 - days / (window + 1)]);
+            if (days === 0) reasons.push('same date');
+            else if (days <= window) reasons.push(`date ${days} day(s) apart`);
+        }
+
+        const weight = scores.reduce((sum, [w]) => sum + w, 0);
+        const similarity = scores.reduce((sum, [w, score]) => sum + w * score, 0) / weight;
+
+        return {
+            invoiceId: record.invoiceId,
+            vendor: record.vendor,
+            invoiceNumber: record.invoiceNumber,
+            date: record.date,
+            totalAmount: record.totalAmount,
+            processedAt: record.processedAt,
+            similarity: Math.round(similarity * 1000) / 1000,
+            reasons,
+        };
+    }
+
+    /**
+     * 1 for the same vendor (by spelling or vendor memory), else the fuzzy similarity of the names
+     */
+    private vendorScore(vendor: string, vendorMemory: VendorMemory | null, other: string): number {
+        if (normalizeVendorName(vendor) === normalizeVendorName(other)) return 1;
+        if (vendorMemory && this.recallEngine.findVendorMemory(other)?.id === vendorMemory.id) return 1;
+
+        const match = fuzzyMatch(
+            vendor,
+            [{ name: other, fingerprints: generateFingerprints(other) }],
+            ['name', 'fingerprints'],
+            0.4
+        );
+
+        return match ? 1 - match.score : 0;
+    }
+
+    private amountTolerance(totalAmount: number | undefined): number {
+        return Math.max(0.01, Math.abs(totalAmount ?? 0) * (this.options.amountTolerance ?? 0.005));
+    }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Equal normalized numbers count fully, equal digits (different prefix) partially
+ */
+function invoiceNumberScore(invoiceNumber: string, record: ProcessedInvoice): { score: number; reason?: string } {
+    if (invoiceNumber === record.invoiceNumber) {
+        return { score: 1, reason: 'same invoice number' };
+    }
+
+    if (normalizeInvoiceNumber(invoiceNumber) === record.normalizedNumber) {
+        return { score: 1, reason: `same invoice number ("${record.invoiceNumber}")` };
+    }
+
+    const digits = invoiceNumber.replace(/\D/g, '').replace(/^0+/, '');
+    if (digits.length >= 3 && digits === record.invoiceNumber.replace(/\D/g, '').replace(/^0+/, '')) {
+        return { score: 0.8, reason: `same invoice number digits ("${record.invoiceNumber}")` };
+    }
+
+    return { score: 0 };
+}
@@ -0,0 +1,118 @@
+/**
+ * Payment Scheduler
+ * Derives the due date and the Skonto deadlines and amounts from the payment
+ * terms and the invoice date, completing unstated terms from the vendor's learned ones
+ */
+
+import {
+    ProcessingContext,
+    FieldConfidence,
+    PaymentTerms,
+    PaymentSchedule,
+} from '../types/index.js';
+import { roundAmount } from '../utils/amount.js';
+import { addDays, getCurrentTimestamp, normalizeDate } from '../utils/date.js';
+import { setFieldValue } from '../utils/diff.js';
+import { parsePaymentTerms, formatPaymentTerms } from '../utils/payment-terms.js';
+
+/**
+ * Payment schedule configuration
+ */
+export interface PaymentScheduleOptions {
+    dueDateConfidence?: number; // Confidence of a due date derived from printed terms (default: 0.9)
+    learnedDueDateConfidence?: number; // Confidence of a due date from the vendor's learned terms (default: 0.75)
+}
+
+export class PaymentScheduler {
+    constructor(private options: PaymentScheduleOptions = {}) { }
+
+    /**
+     * Derive the payment schedule of the invoice with the proposals applied
+     * Records the schedule on the context and proposes the due date if none was extracted
+     */
+    apply(context: ProcessingContext, proposals: Map<string, FieldConfidence>): void {
+        const values = JSON.parse(JSON.stringify(context.invoice));
+        for (const [field, proposal] of proposals.entries()) {
+            setFieldValue(values, field, proposal.value);
+        }
+
+        const printed = parsePaymentTerms(values.paymentTerms);
+        const learned = context.vendorMemory?.paymentTerms;
+        const { terms, source } = completeTerms(printed, learned);
+        if (!terms) return;
+
+        const date = normalizeDate(values.date);
+        const schedule = buildSchedule(terms, source, date, values.totalAmount);
+        context.paymentSchedule = schedule;
+
+        if (!schedule.dueDate || values.dueDate) return;
+
+        const confidence = source === 'INVOICE'
+            ? this.options.dueDateConfidence ?? 0.9
+            : this.options.learnedDueDateConfidence ?? 0.75;
+        const reasoning = `Invoice date ${date} + ${terms.netDays} days (${formatPaymentTerms(terms)}${source === 'VENDOR' ? `, learned for ${context.vendorMemory!.vendorName}` : ''})`;
+
+        proposals.set('dueDate', {
+            field: 'dueDate',
+            value: schedule.dueDate,
+            confidence,
+            source: 'PAYMENT_TERMS',
+            reasoning,
+        });
+
+        context.auditTrail.push({
+            step: 'APPLY',
+            action: 'DUE_DATE_DERIVED',
+            field: 'dueDate',
+            oldValue: values.dueDate,
+            newValue: schedule.dueDate,
+            reasoning,
+            confidence,
+            timestamp: getCurrentTimestamp(),
+        });
+    }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Printed terms, with the net period taken from the vendor's learned terms if
+ * they state none. Without printed terms the learned ones apply as a whole
+ */
+function completeTerms(
+    printed: PaymentTerms | null,
+    learned: PaymentTerms | undefined
+): { terms: PaymentTerms | null; source: PaymentSchedule['source'] } {
+    if (!learned) return { terms: printed, source: 'INVOICE' };
+    if (!printed) return { terms: learned, source: 'VENDOR' };
+    if (printed.netDays !== undefined || learned.netDays === undefined) return { terms: printed, source: 'INVOICE' };
+
+    return { terms: { ...printed, netDays: learned.netDays }, source: 'VENDOR' };
+}
+
+function buildSchedule(
+    terms: PaymentTerms,
+    source: PaymentSchedule['source'],
+    date: string | null,
+    totalAmount: number | undefined
+): PaymentSchedule {
+    return {
+        terms,
+        source,
+        dueDate: date && terms.netDays !== undefined ? addDays(date, terms.netDays) : undefined,
+        discounts: terms.discounts.map(discount => {
+            const amount = typeof totalAmount === 'number'
+                ? roundAmount(totalAmount * discount.percent / 100)
+                : undefined;
+
+            return {
+                percent: discount.percent,
+                deadline: date && discount.days !== undefined ? addDays(date, discount.days) : undefined,
+                amount,
+                payableAmount: amount !== undefined ? roundAmount(totalAmount! - amount) : undefined,
+            };
+        }),
+    };
+}
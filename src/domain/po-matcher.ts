@@ -0,0 +1,270 @@
+/**
+ * Purchase Order Matcher
+ * Proposes the purchase order of an invoice and checks invoice, purchase order
+ * and goods receipts against each other (three-way match)
+ */
+
+import { MemoryStore } from '../core/memory/store.js';
+import {
+    Invoice,
+    LineItem,
+    PurchaseOrder,
+    PurchaseOrderLine,
+    GoodsReceipt,
+    MatchIssue,
+    ThreeWayMatch,
+    ProcessingContext,
+    FieldConfidence,
+} from '../types/index.js';
+import { getCurrentTimestamp, daysBetween } from '../utils/date.js';
+import { valuesMatch } from '../utils/diff.js';
+
+/**
+ * Purchase order matching configuration
+ */
+export interface PoMatchOptions {
+    priceTolerance?: number; // Allowed relative unit price deviation (default: 0.01)
+    quantityTolerance?: number; // Allowed relative excess over ordered/received quantity (default: 0)
+    requireGoodsReceipt?: boolean; // Flag lines of orders without any goods receipt (default: false)
+    maxOrderAgeDays?: number; // Oldest order proposed for an invoice (default: 60)
+}
+
+/**
+ * Evidence weights of a purchase order candidate
+ */
+const SCORE_WEIGHTS = {
+    sku: 0.5,
+    amount: 0.3,
+    date: 0.2,
+};
+
+export class PurchaseOrderMatcher {
+    constructor(private store: MemoryStore, private options: PoMatchOptions = {}) { }
+
+    /**
+     * Propose a PO number when the invoice has none (or one the vendor never issued)
+     * and no rule extracted it
+     */
+    apply(context: ProcessingContext, proposals: Map<string, FieldConfidence>): void {
+        if (proposals.has('poNumber')) return;
+
+        const candidate = this.propose(context.invoice);
+        if (!candidate) return;
+
+        proposals.set('poNumber', {
+            field: 'poNumber',
+            value: candidate.order.poNumber,
+            confidence: candidate.confidence,
+            source: 'PO_MATCH',
+            reasoning: candidate.reasoning,
+        });
+
+        context.auditTrail.push({
+            step: 'APPLY',
+            action: 'PO_MATCH',
+            field: 'poNumber',
+            oldValue: context.invoice.poNumber,
+            newValue: candidate.order.poNumber,
+            reasoning: candidate.reasoning,
+            confidence: candidate.confidence,
+            timestamp: getCurrentTimestamp(),
+        });
+    }
+
+    /**
+     * Find the purchase order an invoice most likely belongs to
+     * Candidates are the vendor's orders placed before the invoice, scored by SKU
+     * overlap, net amount and order age; a close runner-up lowers the confidence
+     * @returns Best candidate or null if the PO number is known or nothing matches
+     */
+    propose(invoice: Invoice): { order: PurchaseOrder; confidence: number; reasoning: string } | null {
+        const orders = this.store.getPurchaseOrdersByVendor(invoice.vendor);
+        if (orders.length === 0) return null;
+        if (invoice.poNumber && orders.some(order => order.poNumber === invoice.poNumber)) return null;
+
+        const [best, runnerUp] = orders
+            .map(order => ({ order, score: this.scoreOrder(invoice, order) }))
+            .filter(candidate => candidate.score > 0)
+            .sort((a, b) => b.score - a.score);
+
+        if (!best) return null;
+
+        const ambiguous = runnerUp !== undefined && best.score - runnerUp.score < 0.1;
+        const confidence = Math.min(0.95, best.score) * (ambiguous ? 0.8 : 1);
+        const reasoning = ambiguous
+            ? `Matched purchase order ${best.order.poNumber} (score ${best.score.toFixed(2)}, close to ${runnerUp.order.poNumber})`
+            : `Matched purchase order ${best.order.poNumber} (score ${best.score.toFixed(2)})`;
+
+        return { order: best.order, confidence, reasoning };
+    }
+
+    /**
+     * Check an invoice against its purchase order and the goods received for it
+     * @param invoice Invoice or output with the final PO number and line items
+     * @returns Match result, or null if there is no PO number or the vendor has no orders on file
+     */
+    check(invoice: Pick<Invoice, 'vendor' | 'poNumber' | 'lineItems'>): ThreeWayMatch | null {
+        if (!invoice.poNumber) return null;
+
+        const order = this.store.getPurchaseOrder(invoice.poNumber);
+        const vendorMatches = order && order.vendor.toLowerCase() === invoice.vendor.toLowerCase();
+
+        if (!order || !vendorMatches) {
+            if (this.store.getPurchaseOrdersByVendor(invoice.vendor).length === 0) return null;
+
+            return {
+                poNumber: invoice.poNumber,
+                receiptIds: [],
+                status: 'MISMATCH',
+                issues: [{
+                    kind: 'PO_NOT_FOUND',
+                    message: order
+                        ? `PO ${invoice.poNumber} belongs to vendor "${order.vendor}"`
+                        : `PO ${invoice.poNumber} not found for vendor "${invoice.vendor}"`,
+                }],
+            };
+        }
+
+        const receipts = this.store.getGoodsReceipts(order.poNumber);
+        const lineItems = invoice.lineItems || [];
+        const issues = lineItems.flatMap((item, index) =>
+            this.checkLine(item, index, lineItems.length, order, receipts)
+        );
+
+        return {
+            poNumber: order.poNumber,
+            receiptIds: receipts.map(receipt => receipt.receiptId),
+            status: issues.length > 0 ? 'MISMATCH' : 'MATCHED',
+            issues,
+        };
+    }
+
+    /**
+     * Score how well an order explains an invoice (0 = not a candidate)
+     */
+    private scoreOrder(invoice: Invoice, order: PurchaseOrder): number {
+        const maxAge = this.options.maxOrderAgeDays ?? 60;
+        const scores: Array<[number, number]> = []; // [weight, score]
+
+        const invoiceTime = invoice.date ? Date.parse(invoice.date) : NaN;
+        const orderTime = Date.parse(order.date);
+
+        if (!isNaN(invoiceTime) && !isNaN(orderTime)) {
+            // An order placed after the invoice, or long before it, is not the one invoiced
+            if (orderTime > invoiceTime) return 0;
+
+            const age = daysBetween(order.date, invoice.date!);
+            if (age > maxAge) return 0;
+            scores.push([SCORE_WEIGHTS.date, 1 - age / maxAge]);
+        }
+
+        const skus = (invoice.lineItems || []).map(item => item.sku).filter((sku): sku is string => !!sku);
+        const skuScore = skus.length > 0
+            ? skus.filter(sku => order.lineItems.some(line => line.sku === sku)).length / skus.length
+            : null;
+        if (skuScore !== null) scores.push([SCORE_WEIGHTS.sku, skuScore]);
+
+        const orderTotal = order.lineItems.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+        const amountScore = invoice.netAmount !== undefined && orderTotal > 0
+            ? Math.max(0, 1 - Math.abs(invoice.netAmount - orderTotal) / orderTotal)
+            : null;
+        if (amountScore !== null) scores.push([SCORE_WEIGHTS.amount, amountScore]);
+
+        // Require positive evidence beyond the date
+        if (!skuScore && (amountScore === null || amountScore < 0.98)) return 0;
+
+        const weight = scores.reduce((sum, [w]) => sum + w, 0);
+        return scores.reduce((sum, [w, score]) => sum + w * score, 0) / weight;
+    }
+
+    private checkLine(
+        item: LineItem,
+        index: number,
+        lineCount: number,
+        order: PurchaseOrder,
+        receipts: GoodsReceipt[]
+    ): MatchIssue[] {
+        const priceTolerance = this.options.priceTolerance ?? 0.01;
+        const quantityTolerance = this.options.quantityTolerance ?? 0;
+        const label = `Line ${index + 1}${item.sku ? ` (${item.sku})` : ''}`;
+        const issue = (kind: MatchIssue['kind'], message: string, expected?: number, actual?: number): MatchIssue => ({
+            kind, lineIndex: index, sku: item.sku, expected, actual, message: `${label}: ${message}`,
+        });
+
+        const orderLine = findOrderLine(item, index, lineCount, order.lineItems);
+        if (!orderLine) {
+            return [issue('NOT_ON_PO', `not on PO ${order.poNumber}`)];
+        }
+
+        const issues: MatchIssue[] = [];
+
+        if (item.unitPrice !== undefined
+            && Math.abs(item.unitPrice - orderLine.unitPrice) > orderLine.unitPrice * priceTolerance + 0.005) {
+            issues.push(issue(
+                'PRICE_MISMATCH',
+                `unit price ${item.unitPrice} differs from PO price ${orderLine.unitPrice}`,
+                orderLine.unitPrice,
+                item.unitPrice
+            ));
+        }
+
+        if (item.quantity !== undefined && item.quantity > orderLine.quantity * (1 + quantityTolerance)) {
+            issues.push(issue(
+                'QUANTITY_EXCEEDS_ORDER',
+                `invoiced quantity ${item.quantity} exceeds ordered ${orderLine.quantity}`,
+                orderLine.quantity,
+                item.quantity
+            ));
+        }
+
+        if (receipts.length > 0 || this.options.requireGoodsReceipt) {
+            const received = receivedQuantity(orderLine, order, receipts);
+
+            if (received === 0) {
+                issues.push(issue('NOT_RECEIVED', 'no goods received', 0, item.quantity));
+            } else if (item.quantity !== undefined && item.quantity > received * (1 + quantityTolerance)) {
+                issues.push(issue(
+                    'QUANTITY_EXCEEDS_RECEIPT',
+                    `invoiced quantity ${item.quantity} exceeds received ${received}`,
+                    received,
+                    item.quantity
+                ));
+            }
+        }
+
+        return issues;
+    }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * PO line of an invoice line: same SKU, then same description, then same position
+ * when invoice and order have the same number of lines
+ */
+function findOrderLine(
+    item: LineItem,
+    index: number,
+    lineCount: number,
+    lines: PurchaseOrderLine[]
+): PurchaseOrderLine | null {
+    return (item.sku && lines.find(line => line.sku === item.sku))
+        || lines.find(line => sameDescription(line.description, item.description))
+        || (lines.length === lineCount ? lines[index] : null)
+        || null;
+}
+
+function receivedQuantity(orderLine: PurchaseOrderLine, order: PurchaseOrder, receipts: GoodsReceipt[]): number {
+    return receipts
+        .flatMap(receipt => receipt.lineItems)
+        .filter(line => order.lineItems.length === 1
+            || (orderLine.sku && line.sku === orderLine.sku)
+            || sameDescription(line.description, orderLine.description))
+        .reduce((sum, line) => sum + line.quantity, 0);
+}
+
+function sameDescription(a?: string, b?: string): boolean {
+    return !!a && !!b && valuesMatch(a, b);
+}
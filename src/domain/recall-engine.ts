@@ -20,6 +20,8 @@ export class RecallEngine {
             correctionMemories: [],
             resolutionMemories: new Map(),
             auditTrail: [],
+            conflicts: [],
+            violations: [],
         };
 
         // Step 1: Fuzzy match vendor
@@ -57,6 +59,12 @@ export class RecallEngine {
         const allCorrections = this.store.getAllCorrectionMemories();
         context.correctionMemories = allCorrections;
 
+        // Load resolution memories for correction rules
+        for (const correction of allCorrections) {
+            const resolution = this.store.getResolutionMemory(correction.id);
+            context.resolutionMemories.set(correction.id, resolution);
+        }
+
         if (allCorrections.length > 0) {
             context.auditTrail.push({
                 step: 'RECALL',
@@ -72,7 +80,7 @@ export class RecallEngine {
     /**
      * Find vendor memory using fuzzy matching
      */
-    private findVendorMemory(vendorName: string): VendorMemory | null {
+    findVendorMemory(vendorName: string): VendorMemory | null {
         // Try exact match first
         const exact = this.store.findVendorByName(vendorName);
         if (exact) return exact;
@@ -0,0 +1,213 @@
+/**
+ * Replay Harness
+ * Backtests memory on historical invoices with their human-approved values.
+ * Every replay processes the invoices on an in-memory snapshot, never on the live store
+ */
+
+import { MemoryStore } from '../core/memory/store.js';
+import type { Agent } from './agent.js';
+import {
+    Invoice,
+    OutputContract,
+    ReplayCase,
+    ReplayCandidate,
+    ReplayError,
+    ReplayFieldStats,
+    ReplayMetrics,
+    ReplayReport,
+} from '../types/index.js';
+import { getFieldValue, valuesMatch } from '../utils/diff.js';
+
+/**
+ * Invoice keys that identify the document rather than hold extracted values
+ */
+const IDENTITY_FIELDS = ['id', 'rawText'];
+
+export class ReplayHarness {
+    /**
+     * @param store Live store the snapshots are taken from
+     * @param createAgent Builds an agent on a snapshot store
+     */
+    constructor(
+        private store: MemoryStore,
+        private createAgent: (store: MemoryStore) => Agent
+    ) { }
+
+    /**
+     * Replay cases on a snapshot of current memory and, if given, on a snapshot
+     * with the candidate rule changes applied
+     * @param cases Defaults to the latest approved run of every corrected invoice
+     */
+    async run(cases?: ReplayCase[], candidate?: ReplayCandidate): Promise<ReplayReport> {
+        const replayCases = cases || this.store.getApprovedRuns().map(run => ({
+            invoice: run.invoice,
+            approved: run.approvedInvoice!,
+        }));
+
+        const baseline = await this.replay(replayCases);
+        if (!candidate) {
+            return { baseline, newErrors: [], fixedErrors: [] };
+        }
+
+        const changed = await this.replay(replayCases, candidate);
+
+        return {
+            baseline,
+            candidate: changed,
+            newErrors: changed.errors.filter(error => !containsError(baseline.errors, error)),
+            fixedErrors: baseline.errors.filter(error => !containsError(changed.errors, error)),
+        };
+    }
+
+    /**
+     * Process all cases on a fresh snapshot
+     */
+    private async replay(cases: ReplayCase[], candidate?: ReplayCandidate): Promise<ReplayMetrics> {
+        const snapshot = this.store.snapshot();
+        const agent = this.createAgent(snapshot);
+
+        try {
+            // The cases were processed before; they must not be flagged as their own duplicates
+            snapshot.deleteProcessedInvoices(cases.map(c => c.invoice.id));
+            if (candidate) applyCandidate(snapshot, agent, candidate);
+
+            const outputs: OutputContract[] = [];
+            for (const replayCase of cases) {
+                outputs.push(await agent.process(replayCase.invoice));
+            }
+
+            return measure(cases, outputs);
+        } finally {
+            agent.close();
+        }
+    }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Apply candidate rule changes to a snapshot
+ * @throws Error if a vendor or rule does not exist in memory
+ */
+function applyCandidate(snapshot: MemoryStore, agent: Agent, candidate: ReplayCandidate): void {
+    for (const ruleId of candidate.removeRules || []) {
+        if (!agent.deleteRule(ruleId)) throw new Error(`Unknown rule: ${ruleId}`);
+    }
+
+    for (const { vendor, field, pattern } of candidate.addVendorPatterns || []) {
+        const vendorMemory = snapshot.findVendorByName(vendor);
+        if (!vendorMemory) throw new Error(`Unknown vendor: ${vendor}`);
+
+        snapshot.updateVendorPattern(vendorMemory.id, field, pattern);
+    }
+
+    for (const rule of candidate.addCorrectionRules || []) {
+        snapshot.saveCorrectionMemory(rule);
+    }
+}
+
+/**
+ * Compare the outputs with the approved values
+ */
+function measure(cases: ReplayCase[], outputs: OutputContract[]): ReplayMetrics {
+    const stats = new Map<string, ReplayFieldStats>();
+    const errors: ReplayError[] = [];
+    let autoApproved = 0;
+    let autoApprovedWithErrors = 0;
+
+    const statsFor = (field: string): ReplayFieldStats => {
+        const key = field.replace(/\/\d+\//, '/*/'); // Aggregate line items per property
+        if (!stats.has(key)) {
+            stats.set(key, { field: key, proposed: 0, correct: 0, needed: 0, fixed: 0, precision: null, recall: null });
+        }
+        return stats.get(key)!;
+    };
+
+    cases.forEach(({ invoice, approved }, i) => {
+        const output = outputs[i];
+        const proposals = Object.entries(output.fields).filter(([, result]) => result.source !== 'OCR');
+        const fields = new Set([...fieldPaths(approved), ...proposals.map(([field]) => field)]);
+        let wrong = false;
+
+        for (const field of fields) {
+            const approvedValue = getFieldValue(approved, field);
+            const proposal = output.fields[field]?.source !== 'OCR' ? output.fields[field] : undefined;
+            const needed = approvedValue !== undefined && !valuesMatch(getFieldValue(invoice, field), approvedValue);
+            const entry = statsFor(field);
+
+            if (needed) entry.needed++;
+
+            if (proposal) {
+                entry.proposed++;
+
+                // A field the human left out counts as accepted
+                if (approvedValue === undefined || valuesMatch(proposal.value, approvedValue)) {
+                    entry.correct++;
+                    if (needed) entry.fixed++;
+                } else {
+                    errors.push({
+                        invoiceId: invoice.id,
+                        field,
+                        proposed: proposal.value,
+                        approved: approvedValue,
+                        ruleId: proposal.ruleId,
+                    });
+                }
+            }
+
+            const outputValue = getFieldValue(output, field);
+            if (approvedValue !== undefined && !valuesMatch(outputValue, approvedValue)
+                && !(isEmpty(outputValue) && isEmpty(approvedValue))) {
+                wrong = true;
+            }
+        }
+
+        if (!output.requiresHumanReview) {
+            autoApproved++;
+            if (wrong) autoApprovedWithErrors++;
+        }
+    });
+
+    const fields = [...stats.values()]
+        .map(entry => ({
+            ...entry,
+            precision: entry.proposed > 0 ? entry.correct / entry.proposed : null,
+            recall: entry.needed > 0 ? entry.fixed / entry.needed : null,
+        }))
+        .filter(entry => entry.proposed > 0 || entry.needed > 0)
+        .sort((a, b) => a.field.localeCompare(b.field));
+
+    return {
+        cases: cases.length,
+        autoApproved,
+        automationRate: cases.length > 0 ? autoApproved / cases.length : 0,
+        autoApprovedWithErrors,
+        fields,
+        errors,
+    };
+}
+
+/**
+ * Field paths of an invoice's extracted values ("lineItems/0/sku" for line cells)
+ */
+function fieldPaths(invoice: Invoice): string[] {
+    return Object.entries(invoice).flatMap(([key, value]) => {
+        if (IDENTITY_FIELDS.includes(key)) return [];
+        if (key === 'lineItems' && Array.isArray(value)) {
+            return value.flatMap((line, index) => Object.keys(line).map(property => `lineItems/${index}/${property}`));
+        }
+        return [key];
+    });
+}
+
+function isEmpty(value: any): boolean {
+    return value === null || value === undefined || value === '';
+}
+
+function containsError(errors: ReplayError[], error: ReplayError): boolean {
+    return errors.some(e => e.invoiceId === error.invoiceId
+        && e.field === error.field
+        && valuesMatch(e.proposed, error.proposed));
+}
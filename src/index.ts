@@ -3,4 +3,7 @@
  */
 
 export { Agent } from './domain/agent.js';
+export type { AgentOptions } from './domain/agent.js';
+export { loadDecisionPolicy, DEFAULT_POLICY_SETTINGS } from './domain/decision-policy.js';
+export type { ExportOptions, ImportOptions } from './core/memory/bundle.js';
 export * from './types/index.js';
@@ -0,0 +1,262 @@
+/**
+ * HTTP API
+ * Exposes invoice processing, correction learning and memory inspection of an Agent
+ */
+
+import http from 'http';
+import { ZodError } from 'zod';
+
+import { Agent } from '../domain/agent.js';
+import { InvoiceSchema } from '../types/index.js';
+import {
+    CorrectionRequestSchema,
+    CorrectionResponse,
+    VendorSummary,
+    VendorPatternsResponse,
+} from './schemas.js';
+import { buildOpenApiDocument } from './openapi.js';
+
+/**
+ * Server configuration
+ */
+export interface ServerOptions {
+    maxBodyBytes?: number; // Largest accepted request body (default: 1 MB)
+}
+
+interface RequestContext {
+    params: Record<string, string>;
+    query: URLSearchParams;
+    headers: http.IncomingHttpHeaders;
+    body: unknown;
+}
+
+interface RouteResult {
+    status: number;
+    body?: unknown;
+}
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    params: string[];
+    handler: (context: RequestContext) => Promise<RouteResult>;
+}
+
+/**
+ * Error with an HTTP status, rendered as an ErrorResponse
+ */
+export class HttpError extends Error {
+    constructor(public status: number, message: string, public details?: unknown) {
+        super(message);
+    }
+}
+
+/**
+ * Create an HTTP server for an agent
+ * @param agent Agent that owns the memory store
+ * @param options Body size limit
+ * @returns Unstarted server
+ */
+export function createServer(agent: Agent, options: ServerOptions = {}): http.Server {
+    const maxBodyBytes = options.maxBodyBytes ?? 1024 * 1024;
+    const routes = createRoutes(agent);
+
+    return http.createServer(async (req, res) => {
+        try {
+            const url = new URL(req.url || '/', 'http://localhost');
+            const match = matchRoute(routes, req.method || 'GET', url.pathname);
+
+            const body = req.method === 'POST' ? await readJsonBody(req, maxBodyBytes) : undefined;
+            const result = await match.route.handler({
+                params: match.params,
+                query: url.searchParams,
+                headers: req.headers,
+                body,
+            });
+
+            sendJson(res, result.status, result.body);
+        } catch (error) {
+            if (error instanceof HttpError) {
+                sendJson(res, error.status, { error: error.message, details: error.details });
+            } else if (error instanceof ZodError) {
+                sendJson(res, 400, { error: 'Validation failed', details: error.issues });
+            } else {
+                sendJson(res, 500, { error: error instanceof Error ? error.message : 'Internal error' });
+            }
+        }
+    });
+}
+
+// =============================================================================
+// Routes
+// =============================================================================
+
+function createRoutes(agent: Agent): Route[] {
+    return [
+        route('POST', '/invoices/process', async ({ body }) => {
+            const invoice = InvoiceSchema.parse(body);
+            const output = await agent.process(invoice);
+
+            return { status: 200, body: output };
+        }),
+
+        route('POST', '/invoices/:id/corrections', async ({ params, body }) => {
+            const { correctedInvoice, runId, systemOutput } = CorrectionRequestSchema.parse(body);
+
+            if (correctedInvoice.id !== params.id) {
+                throw new HttpError(400, `Corrected invoice id "${correctedInvoice.id}" does not match "${params.id}"`);
+            }
+
+            const outcomes = systemOutput
+                ? await agent.feedback(systemOutput, correctedInvoice)
+                : await agent.learnFromCorrection(correctedInvoice, runId);
+
+            if (!outcomes) {
+                throw new HttpError(404, `No processing run found for invoice "${params.id}"${runId ? ` (run ${runId})` : ''}`);
+            }
+
+            const response: CorrectionResponse = {
+                invoiceId: params.id,
+                outcomes: Object.fromEntries(outcomes),
+            };
+
+            return { status: 200, body: response };
+        }),
+
+        route('GET', '/invoices/:id/runs', async ({ params }) => {
+            return { status: 200, body: agent.getProcessingRuns(params.id) };
+        }),
+
+        route('GET', '/vendors', async () => {
+            const vendors: VendorSummary[] = agent.getAllVendorMemories()
+                .map(({ patterns, ...vendor }) => ({ ...vendor, patternFields: Object.keys(patterns) }));
+
+            return { status: 200, body: vendors };
+        }),
+
+        route('GET', '/vendors/:id/patterns', async ({ params }) => {
+            const vendor = agent.getVendorMemoryById(params.id);
+            if (!vendor) throw new HttpError(404, `Vendor not found: ${params.id}`);
+
+            const response: VendorPatternsResponse = {
+                vendorId: vendor.id,
+                vendorName: vendor.vendorName,
+                patterns: vendor.patterns,
+                rules: agent.listRules().filter(rule => rule.vendor === vendor.vendorName),
+            };
+
+            return { status: 200, body: response };
+        }),
+
+        route('GET', '/rules', async ({ query }) => {
+            const vendor = query.get('vendor');
+            const rules = agent.listRules().filter(rule => !vendor || rule.vendor === vendor);
+
+            return { status: 200, body: rules };
+        }),
+
+        route('DELETE', '/rules/:id', async ({ params, headers }) => {
+            const actor = typeof headers['x-actor'] === 'string' ? headers['x-actor'] : undefined;
+            if (!agent.deleteRule(params.id, actor)) {
+                throw new HttpError(404, `Rule not found: ${params.id}`);
+            }
+
+            return { status: 204 };
+        }),
+
+        route('GET', '/openapi.json', async () => ({ status: 200, body: buildOpenApiDocument() })),
+    ];
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function route(method: string, path: string, handler: Route['handler']): Route {
+    const params: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_match, name) => {
+        params.push(name);
+        return '([^/]+)';
+    });
+
+    return { method, pattern: new RegExp(`^${source}$`), params, handler };
+}
+
+function matchRoute(
+    routes: Route[],
+    method: string,
+    pathname: string
+): { route: Route; params: Record<string, string> } {
+    let pathMatched = false;
+
+    for (const candidate of routes) {
+        const match = candidate.pattern.exec(pathname);
+        if (!match) continue;
+
+        pathMatched = true;
+        if (candidate.method !== method) continue;
+
+        const params = Object.fromEntries(
+            candidate.params.map((name, i) => [name, decodeParam(match[i + 1])])
+        );
+        return { route: candidate, params };
+    }
+
+    throw pathMatched
+        ? new HttpError(405, `Method ${method} not allowed on ${pathname}`)
+        : new HttpError(404, `Not found: ${pathname}`);
+}
+
+function decodeParam(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        throw new HttpError(400, `Malformed path parameter: ${value}`);
+    }
+}
+
+function readJsonBody(req: http.IncomingMessage, maxBytes: number): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                // Discard the rest of the body so the 413 reaches the client
+                req.removeAllListeners('data');
+                req.resume();
+                reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes`));
+                return;
+            }
+            chunks.push(chunk);
+        });
+
+        req.on('end', () => {
+            if (size === 0) return resolve(undefined);
+
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+            } catch {
+                reject(new HttpError(400, 'Request body is not valid JSON'));
+            }
+        });
+
+        req.on('error', reject);
+    });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body?: unknown): void {
+    if (body === undefined) {
+        res.writeHead(status);
+        res.end();
+        return;
+    }
+
+    const payload = JSON.stringify(body);
+    res.writeHead(status, {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Length': Buffer.byteLength(payload),
+    });
+    res.end(payload);
+}
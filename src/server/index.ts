@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+/**
+ * HTTP Server Entry Point
+ * Starts a local-only API server on top of an Agent
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+
+import { Agent } from '../domain/agent.js';
+import { loadDecisionPolicy } from '../domain/decision-policy.js';
+import { createServer } from './app.js';
+
+const { values } = parseArgs({
+    options: {
+        db: { type: 'string' },
+        policy: { type: 'string' },
+        host: { type: 'string', default: '127.0.0.1' },
+        port: { type: 'string', default: process.env.PORT || '3000' },
+    },
+});
+
+const dbPath = values.db || path.join(process.cwd(), 'database', 'memory.db');
+fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+
+const agent = new Agent(dbPath, {
+    verbose: false,
+    policy: values.policy ? loadDecisionPolicy(values.policy) : undefined,
+});
+const server = createServer(agent);
+
+server.listen(Number(values.port), values.host, () => {
+    console.log(`Memory agent API listening on http://${values.host}:${values.port} (db: ${dbPath})`);
+    console.log(`OpenAPI document: http://${values.host}:${values.port}/openapi.json`);
+});
+
+function shutdown(): void {
+    server.close(() => {
+        agent.close();
+        process.exit(0);
+    });
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
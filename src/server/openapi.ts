@@ -0,0 +1,178 @@
+/**
+ * OpenAPI Document
+ * Generated from the zod schemas so the contract cannot drift from validation
+ */
+
+import { ZodTypeAny } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import {
+    InvoiceSchema,
+    OutputContractSchema,
+    RuleSummarySchema,
+} from '../types/index.js';
+import {
+    CorrectionRequestSchema,
+    CorrectionResponseSchema,
+    VendorSummarySchema,
+    VendorPatternsResponseSchema,
+    ProcessingRunSchema,
+    ErrorResponseSchema,
+} from './schemas.js';
+
+const COMPONENTS: Record<string, ZodTypeAny> = {
+    Invoice: InvoiceSchema,
+    OutputContract: OutputContractSchema,
+    CorrectionRequest: CorrectionRequestSchema,
+    CorrectionResponse: CorrectionResponseSchema,
+    VendorSummary: VendorSummarySchema,
+    VendorPatterns: VendorPatternsResponseSchema,
+    ProcessingRun: ProcessingRunSchema,
+    RuleSummary: RuleSummarySchema,
+    Error: ErrorResponseSchema,
+};
+
+/**
+ * Build the OpenAPI 3 document of the HTTP API
+ */
+export function buildOpenApiDocument(): Record<string, any> {
+    const schemas = Object.fromEntries(
+        Object.entries(COMPONENTS).map(([name, schema]) => [
+            name,
+            toJsonSchema(schema),
+        ])
+    );
+
+    return {
+        openapi: '3.0.3',
+        info: {
+            title: 'AI Document Automation Memory Layer',
+            version: '1.0.0',
+            description: 'Process invoices, learn from human corrections and inspect learned memory',
+        },
+        paths: {
+            '/invoices/process': {
+                post: {
+                    summary: 'Process an invoice through the Think-Act-Learn loop',
+                    requestBody: jsonBody('Invoice'),
+                    responses: {
+                        200: jsonResponse('Output contract with decision', 'OutputContract'),
+                        400: errorResponse('Invalid invoice'),
+                    },
+                },
+            },
+            '/invoices/{id}/corrections': {
+                post: {
+                    summary: 'Submit the human-approved invoice: records rule outcomes and learns from the differences',
+                    parameters: [pathParameter('id', 'Invoice ID')],
+                    requestBody: jsonBody('CorrectionRequest'),
+                    responses: {
+                        200: jsonResponse('Resolution outcome per rule-backed field', 'CorrectionResponse'),
+                        400: errorResponse('Invalid correction'),
+                        404: errorResponse('No processing run found for the invoice'),
+                    },
+                },
+            },
+            '/invoices/{id}/runs': {
+                get: {
+                    summary: 'Processing history of an invoice, newest first',
+                    parameters: [pathParameter('id', 'Invoice ID')],
+                    responses: {
+                        200: jsonResponse('Persisted runs with proposals and output', 'ProcessingRun', true),
+                    },
+                },
+            },
+            '/vendors': {
+                get: {
+                    summary: 'List vendor memories',
+                    responses: {
+                        200: jsonResponse('Vendors', 'VendorSummary', true),
+                    },
+                },
+            },
+            '/vendors/{id}/patterns': {
+                get: {
+                    summary: 'Get the learned patterns of a vendor',
+                    parameters: [pathParameter('id', 'Vendor memory ID')],
+                    responses: {
+                        200: jsonResponse('Patterns and their track record', 'VendorPatterns'),
+                        404: errorResponse('Vendor not found'),
+                    },
+                },
+            },
+            '/rules': {
+                get: {
+                    summary: 'List vendor patterns and correction rules',
+                    parameters: [{
+                        name: 'vendor',
+                        in: 'query',
+                        required: false,
+                        description: 'Only rules of this vendor (by name)',
+                        schema: { type: 'string' },
+                    }],
+                    responses: {
+                        200: jsonResponse('Rules', 'RuleSummary', true),
+                    },
+                },
+            },
+            '/rules/{id}': {
+                delete: {
+                    summary: 'Delete a rule (recorded as a revision and restorable via rollback)',
+                    parameters: [
+                        pathParameter('id', 'Rule ID as listed by GET /rules'),
+                        {
+                            name: 'X-Actor',
+                            in: 'header',
+                            required: false,
+                            description: 'Recorded on the rule revision',
+                            schema: { type: 'string' },
+                        },
+                    ],
+                    responses: {
+                        204: { description: 'Rule deleted' },
+                        404: errorResponse('Rule not found'),
+                    },
+                },
+            },
+        },
+        components: { schemas },
+    };
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function toJsonSchema(schema: ZodTypeAny): Record<string, any> {
+    return zodToJsonSchema<'openApi3'>(schema, { target: 'openApi3', $refStrategy: 'none' });
+}
+
+function schemaRef(name: string): Record<string, string> {
+    return { $ref: `#/components/schemas/${name}` };
+}
+
+function jsonBody(schema: string): Record<string, any> {
+    return {
+        required: true,
+        content: { 'application/json': { schema: schemaRef(schema) } },
+    };
+}
+
+function jsonResponse(description: string, schema: string, array: boolean = false): Record<string, any> {
+    return {
+        description,
+        content: {
+            'application/json': {
+                schema: array ? { type: 'array', items: schemaRef(schema) } : schemaRef(schema),
+            },
+        },
+    };
+}
+
+function errorResponse(description: string): Record<string, any> {
+    return jsonResponse(description, 'Error');
+}
+
+function pathParameter(name: string, description: string): Record<string, any> {
+    return { name, in: 'path', required: true, description, schema: { type: 'string' } };
+}
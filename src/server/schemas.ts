@@ -0,0 +1,68 @@
+/**
+ * HTTP API Schemas
+ * Request and response bodies of the server, reused for validation and the OpenAPI document
+ */
+
+import { z } from 'zod';
+
+import {
+    InvoiceSchema,
+    OutputContractSchema,
+    VendorMemorySchema,
+    VendorPatternSchema,
+    RuleSummarySchema,
+    FieldSourceSchema,
+} from '../types/index.js';
+
+export const CorrectionRequestSchema = z.object({
+    correctedInvoice: InvoiceSchema, // Human-approved invoice
+    runId: z.string().optional(), // Processing run to correct (defaults to the latest run of the invoice)
+    systemOutput: OutputContractSchema.optional(), // Output of a run this agent did not persist
+});
+
+export const CorrectionResponseSchema = z.object({
+    invoiceId: z.string(),
+    outcomes: z.record(z.enum(['ACCEPTED', 'REJECTED', 'MODIFIED'])), // [field]: resolution outcome
+});
+
+export const VendorSummarySchema = VendorMemorySchema
+    .omit({ patterns: true })
+    .extend({ patternFields: z.array(z.string()) });
+
+export const VendorPatternsResponseSchema = z.object({
+    vendorId: z.string(),
+    vendorName: z.string(),
+    patterns: z.record(VendorPatternSchema),
+    rules: z.array(RuleSummarySchema),
+});
+
+const FieldProposalSchema = z.object({
+    field: z.string(),
+    value: z.any(),
+    confidence: z.number(),
+    source: FieldSourceSchema,
+    ruleId: z.string().optional(),
+    reasoning: z.string(),
+});
+
+export const ProcessingRunSchema = z.object({
+    runId: z.string(),
+    invoiceId: z.string(),
+    invoice: InvoiceSchema,
+    proposals: z.record(FieldProposalSchema),
+    losingCandidates: z.array(FieldProposalSchema).optional(), // Rule-backed values outvoted in conflict resolution
+    output: OutputContractSchema,
+    createdAt: z.string(),
+    correctedAt: z.string().optional(),
+    approvedInvoice: InvoiceSchema.optional(),
+});
+
+export const ErrorResponseSchema = z.object({
+    error: z.string(),
+    details: z.any().optional(),
+});
+
+export type CorrectionRequest = z.infer<typeof CorrectionRequestSchema>;
+export type CorrectionResponse = z.infer<typeof CorrectionResponseSchema>;
+export type VendorSummary = z.infer<typeof VendorSummarySchema>;
+export type VendorPatternsResponse = z.infer<typeof VendorPatternsResponseSchema>;
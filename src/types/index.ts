@@ -44,19 +44,64 @@ export const InvoiceSchema = z.object({
 export type Invoice = z.infer<typeof InvoiceSchema>;
 export type LineItem = z.infer<typeof LineItemSchema>;
 
+// ============================================================================
+// Payment Terms Schemas
+// ============================================================================
+
+export const PaymentDiscountSchema = z.object({
+    percent: z.number(), // Skonto in percent of the total
+    days: z.number().int().optional(), // Days after the invoice date it may be taken (absent: not stated)
+});
+
+export const PaymentTermsSchema = z.object({
+    discounts: z.array(PaymentDiscountSchema), // Early payment discounts, shortest period first
+    netDays: z.number().int().optional(), // Days after the invoice date the total is due (0: immediately)
+});
+
+export const PaymentScheduleSchema = z.object({
+    terms: PaymentTermsSchema,
+    source: z.enum(['INVOICE', 'VENDOR']), // Printed terms, or completed by the vendor's learned terms
+    dueDate: z.string().optional(), // Invoice date + net days
+    discounts: z.array(z.object({
+        percent: z.number(),
+        deadline: z.string().optional(), // Last day the discount may be taken
+        amount: z.number().optional(), // Discount on the total
+        payableAmount: z.number().optional(), // Total less the discount
+    })),
+});
+
+export type PaymentDiscount = z.infer<typeof PaymentDiscountSchema>;
+export type PaymentTerms = z.infer<typeof PaymentTermsSchema>;
+export type PaymentSchedule = z.infer<typeof PaymentScheduleSchema>;
+
 // ============================================================================
 // Vendor Memory Schema (Contextual Knowledge)
 // ============================================================================
 
+export const PatternExampleSchema = z.object({
+    invoiceId: z.string(),
+    value: z.any(), // Human-approved value
+    rawText: z.string(), // Source text the value was corrected from
+    recordedAt: z.string(),
+});
+
 export const VendorPatternSchema = z.object({
-    ruleType: z.enum(['REGEX', 'ANCHOR', 'POSITIONAL', 'FORMULA', 'MAP']),
+    ruleType: z.enum(['REGEX', 'ANCHOR', 'POSITIONAL', 'FORMULA', 'MAP', 'TABLE']),
     logic: z.record(z.any()), // JsonLogicRule
     confidence: z.number().min(0).max(1),
     sampleEvidence: z.string().optional(),
+    examples: z.array(PatternExampleSchema).optional(), // Positive examples from corrections
+    disabled: z.boolean().optional(), // Disabled rules are kept but not applied
     createdAt: z.string(),
     lastUsed: z.string().optional(),
 });
 
+export const DefaultEvidenceSchema = z.object({
+    values: z.array(z.string()), // Recently corrected values, oldest first
+    confidence: z.number().min(0).max(1).optional(), // Confidence of the promoted default
+    updatedAt: z.string(),
+});
+
 export const VendorMemorySchema = z.object({
     id: z.string(),
     vendorName: z.string(),
@@ -65,13 +110,18 @@ export const VendorMemorySchema = z.object({
         currency: z.string().optional(),
         paymentTerms: z.string().optional(),
     }).optional(),
-    patterns: z.record(VendorPatternSchema), // [targetField]: pattern
+    defaultEvidence: z.record(DefaultEvidenceSchema).optional(), // [defaultField]: corrections behind the default
+    dateOrder: z.enum(['DMY', 'MDY']).optional(), // Day/month order of the vendor's slashed and dashed dates
+    paymentTerms: PaymentTermsSchema.optional(), // Terms learned from due date corrections, completing unstated printed ones
+    patterns: z.record(VendorPatternSchema), // [targetField]: pattern ("lineItems" for TABLE rules, "lineItems/*/sku" per line)
     createdAt: z.string(),
     updatedAt: z.string(),
 });
 
 export type VendorMemory = z.infer<typeof VendorMemorySchema>;
 export type VendorPattern = z.infer<typeof VendorPatternSchema>;
+export type PatternExample = z.infer<typeof PatternExampleSchema>;
+export type DefaultEvidence = z.infer<typeof DefaultEvidenceSchema>;
 
 // ============================================================================
 // Correction Memory Schema (Reactive/Global Knowledge)
@@ -80,10 +130,13 @@ export type VendorPattern = z.infer<typeof VendorPatternSchema>;
 export const CorrectionMemorySchema = z.object({
     id: z.string(),
     triggerCondition: z.record(z.any()), // JsonLogicRule
+    targetField: z.string(), // Field written by action
     action: z.record(z.any()), // JsonLogicRule
+    additionalActions: z.record(z.record(z.any())).optional(), // [field]: JsonLogicRule for multi-field rules
     description: z.string(),
     confidence: z.number().min(0).max(1),
     decayFactor: z.number().default(0.95),
+    disabled: z.boolean().optional(), // Disabled rules are kept but not applied
     createdAt: z.string(),
     lastUsed: z.string().optional(),
 });
@@ -111,6 +164,311 @@ export const ResolutionMemorySchema = z.object({
 
 export type ResolutionMemory = z.infer<typeof ResolutionMemorySchema>;
 export type ResolutionHistoryItem = z.infer<typeof ResolutionHistoryItemSchema>;
+export type ResolutionOutcome = ResolutionHistoryItem['outcome'];
+
+// ============================================================================
+// Rule Revision Schema (Version History)
+// ============================================================================
+
+export const RuleRevisionSchema = z.object({
+    ruleKind: z.enum(['VENDOR_PATTERN', 'CORRECTION_RULE']),
+    ruleKey: z.string(), // `${vendorId}:${field}` or correction rule id
+    revision: z.number().int().positive(), // 1-based, per rule
+    source: z.enum(['LEARNED', 'ROLLBACK', 'IMPORTED', 'MANUAL']),
+    invoiceId: z.string().optional(), // Invoice whose correction induced the change
+    actor: z.string().optional(), // Who triggered the change
+    diff: z.array(z.any()).optional(), // JSON Patch of the correction relevant to the rule
+    previousRule: z.any().nullable(), // Rule before the change (null when created)
+    rule: z.any(), // Rule after the change
+    restoredRevision: z.number().int().optional(), // Revision restored by a rollback
+    createdAt: z.string(),
+});
+
+export type RuleRevision = z.infer<typeof RuleRevisionSchema>;
+export type RuleKind = RuleRevision['ruleKind'];
+
+// ============================================================================
+// Memory Inspection
+// ============================================================================
+
+export const RuleSummarySchema = z.object({
+    id: z.string(), // Resolution id: correction rule id or `${vendorId}-${field}`
+    kind: z.enum(['VENDOR_PATTERN', 'CORRECTION_RULE']),
+    vendor: z.string().optional(),
+    field: z.string(),
+    ruleType: z.string(),
+    description: z.string(),
+    confidence: z.number(),
+    disabled: z.boolean(),
+    applications: z.number(),
+    accepted: z.number(),
+    rejected: z.number(),
+});
+
+export const MemoryStatsSchema = z.object({
+    schemaVersion: z.number(),
+    vendors: z.number(),
+    vendorPatterns: z.number(),
+    correctionRules: z.number(),
+    disabledRules: z.number(),
+    processedInvoices: z.number(),
+    ruleApplications: z.number(),
+    acceptedApplications: z.number(),
+    rejectedApplications: z.number(),
+    acceptanceRate: z.number().nullable(), // accepted / applications, null without applications
+});
+
+export type RuleSummary = z.infer<typeof RuleSummarySchema>;
+export type MemoryStats = z.infer<typeof MemoryStatsSchema>;
+
+// ============================================================================
+// Knowledge Bundle (Portable Memory Export)
+// ============================================================================
+
+export const KNOWLEDGE_BUNDLE_VERSION = 1;
+
+export const KnowledgeBundleSchema = z.object({
+    bundleVersion: z.literal(KNOWLEDGE_BUNDLE_VERSION),
+    schemaVersion: z.number().int(), // Memory store schema the bundle was exported from
+    exportedAt: z.string(),
+    source: z.string().optional(), // e.g. "staging"
+    vendorMemories: z.array(VendorMemorySchema),
+    correctionMemories: z.array(CorrectionMemorySchema),
+    resolutionMemories: z.array(ResolutionMemorySchema),
+});
+
+export type KnowledgeBundle = z.infer<typeof KnowledgeBundleSchema>;
+
+export type MergeStrategy = 'skip' | 'overwrite' | 'keep-higher-confidence';
+
+export interface ImportConflict {
+    kind: 'VENDOR_PATTERN' | 'VENDOR_DEFAULT' | 'CORRECTION_RULE';
+    vendor?: string;
+    field?: string;
+    ruleId?: string;
+    existingConfidence?: number;
+    incomingConfidence?: number;
+    resolution: 'KEPT_EXISTING' | 'IMPORTED';
+}
+
+export interface ImportReport {
+    strategy: MergeStrategy;
+    vendorsCreated: number;
+    vendorsMerged: number;
+    patternsImported: number;
+    correctionsImported: number;
+    resolutionsImported: number;
+    conflicts: ImportConflict[];
+}
+
+// ============================================================================
+// Purchase Orders & Goods Receipts (Three-Way Match)
+// ============================================================================
+
+export const PurchaseOrderLineSchema = z.object({
+    sku: z.string().optional(),
+    description: z.string().optional(),
+    quantity: z.number(),
+    unitPrice: z.number(),
+});
+
+export const PurchaseOrderSchema = z.object({
+    poNumber: z.string(),
+    vendor: z.string(),
+    date: z.string(), // ISO date the order was placed
+    currency: z.string().optional(),
+    lineItems: z.array(PurchaseOrderLineSchema),
+});
+
+export const GoodsReceiptSchema = z.object({
+    receiptId: z.string(),
+    poNumber: z.string(),
+    receivedAt: z.string(), // ISO date of delivery
+    lineItems: z.array(z.object({
+        sku: z.string().optional(),
+        description: z.string().optional(),
+        quantity: z.number(), // Quantity received
+    })),
+});
+
+export const MatchIssueSchema = z.object({
+    kind: z.enum([
+        'PO_NOT_FOUND', // Invoice references a PO the vendor does not have
+        'NOT_ON_PO', // Invoice line has no counterpart on the PO
+        'PRICE_MISMATCH', // Unit price outside the price tolerance
+        'QUANTITY_EXCEEDS_ORDER', // More invoiced than ordered
+        'QUANTITY_EXCEEDS_RECEIPT', // More invoiced than received
+        'NOT_RECEIVED', // Nothing received for the line
+    ]),
+    lineIndex: z.number().optional(), // Invoice line (absent for invoice-level issues)
+    sku: z.string().optional(),
+    expected: z.number().optional(),
+    actual: z.number().optional(),
+    message: z.string(),
+});
+
+export const ThreeWayMatchSchema = z.object({
+    poNumber: z.string(),
+    receiptIds: z.array(z.string()), // Goods receipts compared against
+    status: z.enum(['MATCHED', 'MISMATCH']),
+    issues: z.array(MatchIssueSchema),
+});
+
+export type PurchaseOrder = z.infer<typeof PurchaseOrderSchema>;
+export type PurchaseOrderLine = z.infer<typeof PurchaseOrderLineSchema>;
+export type GoodsReceipt = z.infer<typeof GoodsReceiptSchema>;
+export type MatchIssue = z.infer<typeof MatchIssueSchema>;
+export type ThreeWayMatch = z.infer<typeof ThreeWayMatchSchema>;
+
+// ============================================================================
+// Duplicate Detection
+// ============================================================================
+
+export const DuplicateCandidateSchema = z.object({
+    invoiceId: z.string(), // Previously processed invoice
+    vendor: z.string(),
+    invoiceNumber: z.string(),
+    date: z.string().optional(),
+    totalAmount: z.number().optional(),
+    processedAt: z.string(),
+    similarity: z.number().min(0).max(1),
+    isDuplicate: z.boolean(), // Similarity reached the duplicate threshold
+    reasons: z.array(z.string()), // Evidence, e.g. "same invoice number (normalized)"
+});
+
+export type DuplicateCandidate = z.infer<typeof DuplicateCandidateSchema>;
+
+export interface ProcessedInvoice {
+    fingerprint: string;
+    invoiceId: string;
+    vendor: string;
+    invoiceNumber: string;
+    normalizedNumber: string;
+    date?: string;
+    totalAmount?: number;
+    processedAt: string;
+    vendorId?: string; // Vendor memory at processing time
+    profile?: InvoiceProfile; // Missing on invoices processed before vendor statistics
+}
+
+// ============================================================================
+// Vendor Statistics (Anomaly Detection)
+// ============================================================================
+
+/**
+ * Values of a processed invoice that vendor statistics are built from
+ */
+export interface InvoiceProfile {
+    currency?: string;
+    taxRate?: number; // Percent, from tax and net amount
+    paymentTerms?: string;
+    skus: string[];
+    bankAccounts: string[]; // IBAN-like tokens of the raw text (without spaces)
+}
+
+/**
+ * What is typical of a vendor, from its recent processed invoices
+ */
+export interface VendorStatistics {
+    vendor: string;
+    invoices: number; // Processed invoices the statistics are based on
+    totalAmount: { min: number; median: number; max: number } | null;
+    currencies: Record<string, number>; // Value -> invoice count (likewise below)
+    taxRates: Record<string, number>;
+    paymentTerms: Record<string, number>;
+    skus: Record<string, number>;
+    bankAccounts: Record<string, number>;
+    meanIntervalDays: number | null; // Mean days between consecutive invoice dates
+    lastInvoiceDate?: string;
+}
+
+// ============================================================================
+// Decision Policy
+// ============================================================================
+
+export const EscalationCheckSchema = z.enum([
+    'DUPLICATE', // Invoice resends a processed invoice
+    'NEW_VENDOR', // No vendor memory yet
+    'CRITICAL_FIELDS', // Critical field missing or below the field threshold
+    'THREE_WAY_MATCH', // Invoice disagrees with PO or goods receipts
+    'FIELD_CONFLICTS', // Candidate values of a field disagreed
+    'OVERALL_CONFIDENCE', // Overall confidence below the threshold
+    'AMOUNT_MISMATCH', // Total differs from the line item sum
+    'ARITHMETIC', // Net, tax, total and line amounts disagree
+    'VENDOR_ANOMALIES', // Invoice is unusual for the vendor's history
+    'POLICY_RULES', // Custom JSON Logic rules of the policy
+]);
+
+export const ReviewSeveritySchema = z.enum([
+    'CRITICAL', // Must be resolved before payment
+    'WARNING', // Needs a reviewer's confirmation
+    'INFO', // Reported only, does not require review
+]);
+
+export const ReviewReasonCodeSchema = z.enum([
+    'DUPLICATE',
+    'POSSIBLE_DUPLICATE', // Similar invoice below the duplicate threshold
+    'NEW_VENDOR',
+    'CRITICAL_FIELD_MISSING',
+    'CRITICAL_FIELD_LOW_CONFIDENCE',
+    'FIELD_CONFLICT', // Rules or OCR proposed different values
+    ...MatchIssueSchema.shape.kind.options, // Three-way match issues
+    'LOW_CONFIDENCE',
+    'AMOUNT_MISMATCH',
+    'TOTAL_MISMATCH', // Arithmetic rules
+    'LINE_AMOUNT_MISMATCH',
+    'TAX_MISMATCH',
+    'AMOUNT_OUTLIER', // Vendor anomalies
+    'CURRENCY_CHANGE',
+    'TAX_RATE_CHANGE',
+    'PAYMENT_TERMS_CHANGE',
+    'NEW_BANK_ACCOUNT',
+    'NEW_SKU',
+    'UNUSUAL_FREQUENCY',
+    'POLICY_RULE',
+]);
+
+export const ReviewReasonSchema = z.object({
+    code: ReviewReasonCodeSchema,
+    severity: ReviewSeveritySchema,
+    field: z.string().optional(),
+    expected: z.any().optional(),
+    actual: z.any().optional(),
+    ruleId: z.string().optional(), // Rule behind the value or policy rule that matched
+    message: z.string(),
+});
+
+export type ReviewSeverity = z.infer<typeof ReviewSeveritySchema>;
+export type ReviewReasonCode = z.infer<typeof ReviewReasonCodeSchema>;
+export type ReviewReason = z.infer<typeof ReviewReasonSchema>;
+
+export const PolicyRuleSchema = z.object({
+    id: z.string(),
+    when: z.record(z.any()), // JsonLogicRule over the output, "confidence" and "fieldConfidence"
+    reasoning: z.string(), // Review reason when the rule matches
+    severity: ReviewSeveritySchema.default('WARNING'),
+});
+
+export const PolicySettingsSchema = z.object({
+    checks: z.array(EscalationCheckSchema), // Checks to evaluate, in the order their reasons are listed
+    criticalFields: z.array(z.string()),
+    criticalFieldConfidence: z.number().min(0).max(1),
+    overallConfidence: z.number().min(0).max(1),
+    amountTolerance: z.number().min(0), // Allowed total vs. line item sum difference
+    criticalFieldWeight: z.number().min(1), // Weight of critical fields in the overall confidence
+    rules: z.array(PolicyRuleSchema),
+});
+
+export const DecisionPolicySchema = z.object({
+    version: z.string(),
+    defaults: PolicySettingsSchema.partial().default({}), // Unset settings keep the built-in defaults
+    vendors: z.record(z.string(), PolicySettingsSchema.partial()).default({}), // Overrides by vendor name
+});
+
+export type EscalationCheck = z.infer<typeof EscalationCheckSchema>;
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+export type PolicySettings = z.infer<typeof PolicySettingsSchema>;
+export type DecisionPolicy = z.infer<typeof DecisionPolicySchema>;
 
 // ============================================================================
 // Audit Trail
@@ -124,6 +482,8 @@ export const AuditTrailEntrySchema = z.object({
     newValue: z.any().optional(),
     reasoning: z.string(),
     confidence: z.number().min(0).max(1).optional(),
+    ruleId: z.string().optional(), // Memory that produced the value (APPLY steps)
+    policyVersion: z.string().optional(), // Decision policy applied (DECIDE step)
     timestamp: z.string(),
 });
 
@@ -133,6 +493,16 @@ export type AuditTrailEntry = z.infer<typeof AuditTrailEntrySchema>;
 // Output Contract
 // ============================================================================
 
+export const FieldSourceSchema = z.enum(['OCR', 'VENDOR_PATTERN', 'CORRECTION_RULE', 'PO_MATCH', 'VALIDATION', 'PAYMENT_TERMS', 'HUMAN']);
+
+export const FieldResultSchema = z.object({
+    value: z.any(),
+    confidence: z.number().min(0).max(1),
+    source: FieldSourceSchema,
+    ruleId: z.string().optional(),
+    reasoning: z.string().optional(),
+});
+
 export const OutputContractSchema = z.object({
     invoiceId: z.string(),
     vendor: z.string(),
@@ -147,13 +517,22 @@ export const OutputContractSchema = z.object({
     lineItems: z.array(LineItemSchema).optional(),
     paymentTerms: z.string().optional(),
     poNumber: z.string().optional(),
-    requiresHumanReview: z.boolean(),
+    requiresHumanReview: z.boolean(), // Any review reason above INFO
     reasoning: z.string(),
-    confidence: z.number().min(0).max(1),
+    reviewReasons: z.array(ReviewReasonSchema).default([]), // Results of all failed checks
+    confidence: z.number().min(0).max(1), // Weighted over fields, critical fields weigh more
+    fields: z.record(FieldResultSchema).default({}), // Per-field value and provenance by field path
     auditTrail: z.array(AuditTrailEntrySchema),
     processedAt: z.string(),
+    runId: z.string().optional(), // Processing run persisted for this output
+    poMatch: ThreeWayMatchSchema.optional(), // Three-way match against PO and goods receipts
+    duplicateOf: z.string().optional(), // Invoice id of the best duplicate candidate at or above the threshold
+    duplicateCandidates: z.array(DuplicateCandidateSchema).optional(), // Ranked by similarity
+    paymentSchedule: PaymentScheduleSchema.optional(), // Due date and Skonto deadlines derived from the payment terms
 });
 
+export type FieldSource = z.infer<typeof FieldSourceSchema>;
+export type FieldResult = z.infer<typeof FieldResultSchema>;
 export type OutputContract = z.infer<typeof OutputContractSchema>;
 
 // ============================================================================
@@ -166,6 +545,9 @@ export interface ProcessingContext {
     correctionMemories: CorrectionMemory[];
     resolutionMemories: Map<string, ResolutionMemory>;
     auditTrail: AuditTrailEntry[];
+    conflicts: FieldConflict[]; // Fields whose candidates disagreed
+    violations: ArithmeticViolation[]; // Arithmetic rules the values break
+    paymentSchedule?: PaymentSchedule; // Derived from the final payment terms
 }
 
 // ============================================================================
@@ -176,11 +558,115 @@ export interface FieldConfidence {
     field: string;
     value: any;
     confidence: number;
-    source: 'OCR' | 'VENDOR_PATTERN' | 'CORRECTION_RULE' | 'HUMAN';
+    source: FieldSource;
     ruleId?: string;
     reasoning: string;
 }
 
+/**
+ * Disagreement between the candidate values of one field
+ */
+export interface FieldConflict {
+    field: string;
+    candidates: FieldConfidence[]; // Every candidate, including the OCR value
+    resolved: FieldConfidence; // Winning candidate (source OCR if the extracted value was kept)
+    runnerUp: FieldConfidence; // Best candidate of the strongest other value
+    margin: number; // Vote difference between the two best values
+    close: boolean; // Margin below the close margin: the choice needs review
+}
+
+/**
+ * Arithmetic rules between amounts
+ * - TOTAL: netAmount + taxAmount = totalAmount
+ * - LINE_AMOUNT: quantity * unitPrice = amount (per line)
+ * - LINE_TAX: sum of line amount * line taxRate = taxAmount
+ */
+export type ArithmeticRule = 'TOTAL' | 'LINE_AMOUNT' | 'LINE_TAX';
+
+/**
+ * Arithmetic rule broken by an invoice's values
+ */
+export interface ArithmeticViolation {
+    rule: ArithmeticRule;
+    field: string; // Field the other values determine (e.g. "totalAmount", "lineItems/0/amount")
+    fields: string[]; // Every field the rule relates
+    expected: number; // Value implied by the other fields
+    actual: number;
+    tolerance: number;
+    correction?: { field: string; value: number }; // Only field whose change repairs every rule
+}
+
+// ============================================================================
+// Processing Run (Persisted Agent Output)
+// ============================================================================
+
+export interface ProcessingRun {
+    runId: string;
+    invoiceId: string;
+    invoice: Invoice; // Input as received
+    proposals: Record<string, FieldConfidence>; // Proposals that reached the decision
+    losingCandidates?: FieldConfidence[]; // Rule-backed values outvoted in conflict resolution
+    output: OutputContract;
+    createdAt: string;
+    correctedAt?: string; // When a human correction was learned from this run
+    approvedInvoice?: Invoice; // Human-approved values of that correction
+}
+
+// ============================================================================
+// Replay (Backtesting)
+// ============================================================================
+
+/**
+ * A historical invoice with its human-approved values
+ */
+export interface ReplayCase {
+    invoice: Invoice; // Input as received
+    approved: Invoice;
+}
+
+/**
+ * Rule changes tried on the snapshot
+ */
+export interface ReplayCandidate {
+    addVendorPatterns?: Array<{ vendor: string; field: string; pattern: VendorPattern }>;
+    addCorrectionRules?: CorrectionMemory[];
+    removeRules?: string[]; // Rule ids as listed by listRules
+}
+
+export interface ReplayFieldStats {
+    field: string;
+    proposed: number; // Values proposed by rules
+    correct: number; // Proposals equal to the approved value
+    needed: number; // Extracted values the human had to change
+    fixed: number; // Needed changes a proposal made
+    precision: number | null; // correct / proposed, null without proposals
+    recall: number | null; // fixed / needed, null if nothing needed changing
+}
+
+export interface ReplayError {
+    invoiceId: string;
+    field: string;
+    proposed: any;
+    approved: any;
+    ruleId?: string;
+}
+
+export interface ReplayMetrics {
+    cases: number;
+    autoApproved: number;
+    automationRate: number; // autoApproved / cases
+    autoApprovedWithErrors: number; // Auto-approved but differing from the approved values
+    fields: ReplayFieldStats[];
+    errors: ReplayError[]; // Proposals that differ from the approved value
+}
+
+export interface ReplayReport {
+    baseline: ReplayMetrics; // Current memory
+    candidate?: ReplayMetrics; // Memory with the candidate changes
+    newErrors: ReplayError[]; // Candidate errors the baseline did not make
+    fixedErrors: ReplayError[]; // Baseline errors the candidate no longer makes
+}
+
 // ============================================================================
 // Induction Result
 // ============================================================================
@@ -189,7 +675,23 @@ export interface InductionResult {
     vendorRules: Array<{
         field: string;
         pattern: VendorPattern;
+        outcome: 'CREATED' | 'GENERALIZED' | 'REPLACED' | 'RETAINED';
     }>;
     correctionRules: CorrectionMemory[];
+    defaultUpdates: DefaultUpdate[];
+    dateOrder?: 'DMY' | 'MDY'; // Day/month order revealed by a date correction
+    paymentTerms?: PaymentTerms; // Vendor terms revealed by a due date correction
     vendorId?: string;
 }
+
+export interface DefaultUpdate {
+    field: 'currency' | 'paymentTerms';
+    value: string | null; // Default after the update (null: none)
+    evidence: DefaultEvidence;
+    outcome: 'OBSERVED' | 'PROMOTED' | 'REINFORCED' | 'DEMOTED';
+}
+
+export interface InductionContext {
+    vendorMemory?: VendorMemory | null; // Existing knowledge to generalize against
+    taxRates?: number[]; // Candidate VAT rates for arithmetic induction (fractions)
+}
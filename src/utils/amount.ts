@@ -0,0 +1,165 @@
+/**
+ * Amount Utility Functions
+ * Parses and renders amounts in German, English, Swiss and French notation
+ */
+
+/**
+ * Number notations
+ * - de: 1.234,56
+ * - en: 1,234.56
+ * - ch: 1'234.56 (also 1’234.56)
+ * - fr: 1 234,56 (space, no-break space or narrow no-break space)
+ */
+export type AmountLocale = 'de' | 'en' | 'ch' | 'fr';
+
+const LOCALE_FORMATS: Record<AmountLocale, { groups: string[]; decimal: string }> = {
+    de: { groups: ['.'], decimal: ',' },
+    en: { groups: [','], decimal: '.' },
+    ch: { groups: ["'", '’'], decimal: '.' },
+    fr: { groups: [' ', '\u00a0', '\u202f'], decimal: ',' },
+};
+
+/**
+ * Check that a rule argument names a supported notation
+ */
+export function isAmountLocale(value: string): value is AmountLocale {
+    return value in LOCALE_FORMATS;
+}
+
+const GROUP_CHARS = ".,'’";
+const SPACE_CHARS = ' \\u00a0\\u202f';
+
+/**
+ * Regex source of an amount in any notation: digit groups of three with a
+ * separator, or plain digits, each with an optional decimal part. Groups
+ * separated by spaces need a decimal comma (French), so that adjacent numbers
+ * ("Qty 2 380") are not read as one
+ */
+export const AMOUNT_PATTERN = `-?\\d{1,3}(?:[${GROUP_CHARS}]\\d{3})+(?:[.,]\\d+)?(?!\\d)|-?\\d{1,3}(?:[${SPACE_CHARS}]\\d{3})+,\\d+|-?\\d+(?:[.,]\\d+)?`;
+
+/**
+ * Parse the first amount in a text ("2.380,00", "1,234.56", "CHF 1'250.00", "1 250,00 €")
+ * Without a locale the notation is detected: of two different separators the last
+ * is the decimal one; a single separator followed by exactly three digits groups
+ * thousands (unless the integer part is 0), any other is the decimal separator
+ * @param text Text containing the amount
+ * @param locale Notation to read the amount in (amounts printed in another are skipped:
+ * "1,234.56" read as German is null, not 1.234)
+ * @returns Parsed amount or null
+ */
+export function parseAmount(text: string, locale?: AmountLocale): number | null {
+    if (text === null || text === undefined) return null;
+
+    const source = String(text);
+    const match = source.match(new RegExp(locale ? localePattern(locale) : AMOUNT_PATTERN));
+    if (!match) return null;
+
+    const value = locale ? readLocale(match[0], locale) : readDetected(match[0]);
+    return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Render an amount the ways an invoice may print it, longest first
+ * ("2.380,00", "2,380.00", "2'380.00", "2 380,00", "2380,00", "2380", ...)
+ */
+export function formatAmountVariants(value: number): string[] {
+    const variants = new Set<string>();
+
+    for (const [locale, format] of Object.entries(LOCALE_FORMATS)) {
+        for (const group of format.groups) {
+            variants.add(formatAmount(value, locale as AmountLocale, group));
+            if (Number.isInteger(value)) variants.add(formatAmount(value, locale as AmountLocale, group, 0));
+        }
+        variants.add(formatAmount(value, locale as AmountLocale, ''));
+    }
+
+    variants.add(String(value));
+    variants.add(String(value).replace('.', ','));
+
+    return [...variants].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Find the renderings of an amount printed in a text
+ * Every amount in the text is read in each notation; those equal to the value are returned
+ * @returns Distinct renderings as printed, longest first
+ */
+export function findAmountRenderings(text: string, value: number): string[] {
+    if (!text) return [];
+
+    const renderings = new Set<string>();
+
+    for (const match of text.matchAll(new RegExp(AMOUNT_PATTERN, 'g'))) {
+        const readings = [
+            parseAmount(match[0]),
+            ...(Object.keys(LOCALE_FORMATS) as AmountLocale[]).map(locale => parseAmount(match[0], locale)),
+        ];
+
+        if (readings.some(reading => reading !== null && Math.abs(reading - value) < 0.005)) {
+            renderings.add(match[0]);
+        }
+    }
+
+    return [...renderings].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Round an amount to cents
+ */
+export function roundAmount(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Regex source of a whole amount token in the notation: a token continuing with
+ * digits, apostrophes or a separator (or space) followed by a digit is another
+ * notation ("1.234.567,89" is no English amount), not a shorter amount within it
+ */
+function localePattern(locale: AmountLocale): string {
+    const { groups, decimal } = LOCALE_FORMATS[locale];
+    const group = `[${groups.map(escape).join('')}]`;
+    const amount = `-?\\d{1,3}(?:${group}\\d{3})+(?:${escape(decimal)}\\d+)?|-?\\d+(?:${escape(decimal)}\\d+)?`;
+
+    return `(?<![\\d'’]|\\d[.,${SPACE_CHARS}])(?:${amount})(?![\\d'’]|[.,${SPACE_CHARS}]\\d)`;
+}
+
+function readLocale(token: string, locale: AmountLocale): number {
+    const { groups, decimal } = LOCALE_FORMATS[locale];
+    const plain = [...token].filter(char => !groups.includes(char)).join('');
+
+    return parseFloat(plain.replace(decimal, '.'));
+}
+
+function readDetected(token: string): number {
+    const compact = token.replace(/['’ \u00a0\u202f]/g, '');
+    const separators = compact.match(/[.,]/g) || [];
+    const last = separators[separators.length - 1];
+
+    if (!last) return parseFloat(compact);
+
+    const lastIndex = compact.lastIndexOf(last);
+    const integerPart = compact.slice(0, lastIndex).replace(/[.,]/g, '');
+    const fraction = compact.slice(lastIndex + 1);
+
+    const decimal = new Set(separators).size > 1
+        || (separators.length === 1 && (fraction.length !== 3 || /^-?0$/.test(integerPart)));
+
+    return decimal
+        ? parseFloat(`${integerPart}.${fraction}`)
+        : parseFloat(compact.replace(/[.,]/g, ''));
+}
+
+function formatAmount(value: number, locale: AmountLocale, group: string, decimals: number = 2): string {
+    const [integer, fraction] = Math.abs(value).toFixed(decimals).split('.');
+    const grouped = integer.replace(/\B(?=(\d{3})+(?!\d))/g, group);
+
+    return `${value < 0 ? '-' : ''}${grouped}${fraction ? `${LOCALE_FORMATS[locale].decimal}${fraction}` : ''}`;
+}
+
+function escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,8 +1,67 @@
 /**
  * Date Utility Functions
- * Handles German date formats and normalization
+ * Parses numeric dates (DD.MM.YYYY, ISO, slashed and dashed in either day/month
+ * order) and dates with German, English or French month names
  */
 
+/**
+ * Day/month order of numeric dates ("03/04/2024": 3 April in DMY, 4 March in MDY)
+ */
+export type DateOrder = 'DMY' | 'MDY';
+
+/**
+ * A date as printed in a text
+ */
+export interface DateRendering {
+    text: string;
+    order?: DateOrder; // Only set if the rendering is read as the date in one order alone
+}
+
+/**
+ * Month names and abbreviations (German, English, French), lower case
+ */
+const MONTHS: Record<string, number> = {
+    januar: 1, jänner: 1, january: 1, janvier: 1, jan: 1, janv: 1,
+    februar: 2, february: 2, février: 2, fevrier: 2, feb: 2, febr: 2, févr: 2, fevr: 2, fév: 2,
+    märz: 3, maerz: 3, march: 3, mars: 3, mär: 3, mrz: 3, mar: 3,
+    april: 4, avril: 4, apr: 4, avr: 4,
+    mai: 5, may: 5,
+    juni: 6, june: 6, juin: 6, jun: 6,
+    juli: 7, july: 7, juillet: 7, jul: 7, juil: 7,
+    august: 8, août: 8, aout: 8, aug: 8,
+    september: 9, septembre: 9, sep: 9, sept: 9,
+    oktober: 10, october: 10, octobre: 10, okt: 10, oct: 10,
+    november: 11, novembre: 11, nov: 11,
+    dezember: 12, december: 12, décembre: 12, decembre: 12, dez: 12, dec: 12, déc: 12,
+};
+
+const MONTH_NAMES: Record<string, string[]> = {
+    de: ['Januar', 'Februar', 'März', 'April', 'Mai', 'Juni', 'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember'],
+    en: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+    fr: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'],
+};
+
+const MONTH_PATTERN = `(?<![a-zà-ÿ])(?:${Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|')})(?![a-zà-ÿ])\\.?`;
+const ORDINAL_PATTERN = '(?:\\.|er|st|nd|rd|th)?';
+
+/**
+ * Regex source of a date in any supported notation (rules match it case-insensitively):
+ * ISO, numeric with dots, slashes or dashes, "15. Januar 2024", "15 janvier 2024", "Jan 15, 2024"
+ */
+export const DATE_PATTERN = [
+    '(?<!\\d)\\d{4}-\\d{1,2}-\\d{1,2}(?!\\d)',
+    ...['\\.', '/', '-'].map(separator => `(?<!\\d)\\d{1,2}${separator}\\d{1,2}${separator}(?:\\d{4}|\\d{2})(?!\\d)`),
+    `(?<!\\d)\\d{1,2}${ORDINAL_PATTERN}\\s*${MONTH_PATTERN}\\s*\\d{4}`,
+    `${MONTH_PATTERN}\\s*\\d{1,2}${ORDINAL_PATTERN},?\\s*\\d{4}`,
+].join('|');
+
+/**
+ * Check that a rule argument names a supported day/month order
+ */
+export function isDateOrder(value: string): value is DateOrder {
+    return value === 'DMY' || value === 'MDY';
+}
+
 /**
  * Parse German date format (DD.MM.YYYY or DD.MM.YY)
  * @param dateStr Date string
@@ -39,31 +98,80 @@ export function parseGermanDate(dateStr: string): string | null {
 }
 
 /**
- * Normalize date to ISO format
- * Handles multiple formats
- * @param dateStr Date string
+ * Parse the first date in a text to ISO format
+ * Dotted dates are always day first; slashed and dashed ones are read in the given
+ * order, or without one day first unless only month first gives a valid date
+ * @param text Text containing the date
+ * @param order Day/month order of the vendor's numeric dates
  * @returns ISO date string or null
  */
-export function normalizeDate(dateStr: string): string | null {
-    if (!dateStr) return null;
+export function normalizeDate(text: string, order?: DateOrder): string | null {
+    if (!text) return null;
 
-    // Try German format first
-    const german = parseGermanDate(dateStr);
-    if (german) return german;
-
-    // Try ISO format
-    if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-        const date = new Date(dateStr);
-        if (!isNaN(date.getTime())) return dateStr;
+    for (const match of String(text).matchAll(new RegExp(DATE_PATTERN, 'gi'))) {
+        const date = readDate(match[0], order);
+        if (date) return date;
     }
 
-    // Try parsing as general date
-    const date = new Date(dateStr);
-    if (!isNaN(date.getTime())) {
-        return date.toISOString().split('T')[0];
+    return null;
+}
+
+/**
+ * Generate textual renderings of an ISO date as found on invoices
+ * ("2024-01-15", "15.01.2024", "15/01/2024", "01/15/2024", "15. Januar 2024", "January 15, 2024", ...)
+ * @param isoDate Date string (YYYY-MM-DD)
+ * @returns Array of date variants
+ */
+export function generateDateVariants(isoDate: string): string[] {
+    const variants = [isoDate];
+
+    const match = isoDate.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return variants;
+
+    const [, year, month, day] = match;
+    const d = String(parseInt(day));
+    const m = String(parseInt(month));
+    const short = year.substring(2);
+
+    variants.push(
+        `${day}.${month}.${year}`, `${day}.${month}.${short}`, `${d}.${m}.${year}`,
+        `${day}/${month}/${year}`, `${month}/${day}/${year}`, `${d}/${m}/${year}`, `${m}/${d}/${year}`,
+        `${day}/${month}/${short}`, `${month}/${day}/${short}`,
+        `${day}-${month}-${year}`, `${month}-${day}-${year}`,
+    );
+
+    const { de, en, fr } = MONTH_NAMES;
+    const index = parseInt(month) - 1;
+    variants.push(
+        `${d}. ${de[index]} ${year}`, `${day}. ${de[index]} ${year}`,
+        `${en[index]} ${d}, ${year}`, `${en[index].slice(0, 3)} ${d}, ${year}`,
+        `${d} ${en[index]} ${year}`, `${d} ${en[index].slice(0, 3)} ${year}`,
+        `${d === '1' ? '1er' : d} ${fr[index]} ${year}`,
+    );
+
+    return [...new Set(variants)];
+}
+
+/**
+ * Find the renderings of a date printed in a text
+ * Every date in the text is read in both orders; those equal to the date are returned
+ * @param text Text to search
+ * @param isoDate Date string (YYYY-MM-DD)
+ * @returns Distinct renderings as printed, longest first
+ */
+export function findDateRenderings(text: string, isoDate: string): DateRendering[] {
+    if (!text || !isoDate) return [];
+
+    const renderings = new Map<string, DateRendering>();
+
+    for (const match of text.matchAll(new RegExp(DATE_PATTERN, 'gi'))) {
+        const orders = (['DMY', 'MDY'] as DateOrder[]).filter(order => readDate(match[0], order) === isoDate);
+        if (orders.length === 0) continue;
+
+        renderings.set(match[0], { text: match[0], order: orders.length === 1 ? orders[0] : undefined });
     }
 
-    return null;
+    return [...renderings.values()].sort((a, b) => b.text.length - a.text.length);
 }
 
 /**
@@ -86,3 +194,59 @@ export function daysBetween(date1: string, date2: string): number {
     const diff = Math.abs(d2.getTime() - d1.getTime());
     return Math.floor(diff / (1000 * 60 * 60 * 24));
 }
+
+/**
+ * Add days to an ISO date
+ * @param isoDate Date string (YYYY-MM-DD)
+ * @param days Days to add (may be negative)
+ * @returns ISO date string
+ */
+export function addDays(isoDate: string, days: number): string {
+    const date = new Date(`${isoDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().split('T')[0];
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Read one date token (a match of DATE_PATTERN)
+ */
+function readDate(token: string, order?: DateOrder): string | null {
+    const iso = token.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (iso) return toIso(iso[1], iso[2], iso[3]);
+
+    const numeric = token.match(/^(\d{1,2})([./-])(\d{1,2})\2(\d{2,4})$/);
+    if (numeric) {
+        const [, first, separator, second, year] = numeric;
+        if (separator === '.') return toIso(year, second, first);
+        if (order) return order === 'DMY' ? toIso(year, second, first) : toIso(year, first, second);
+
+        return toIso(year, second, first) || toIso(year, first, second);
+    }
+
+    const name = (token.match(/[a-zà-ÿ]+/gi) || []).find(word => word.toLowerCase() in MONTHS);
+    const [day, year] = token.match(/\d+/g) || [];
+    if (!name || !day || !year) return null;
+
+    return toIso(year, String(MONTHS[name.toLowerCase()]), day);
+}
+
+/**
+ * Assemble an ISO date, rejecting days the month does not have
+ */
+function toIso(year: string, month: string, day: string): string | null {
+    let y = parseInt(year);
+    if (year.length === 2) y += y > 50 ? 1900 : 2000;
+
+    const m = parseInt(month);
+    const d = parseInt(day);
+    if (m < 1 || m > 12 || d < 1) return null;
+
+    const date = new Date(Date.UTC(y, m - 1, d));
+    if (date.getUTCMonth() !== m - 1) return null;
+
+    return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
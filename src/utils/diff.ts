@@ -4,6 +4,7 @@
  */
 
 import { createPatch, applyPatch } from 'rfc6902';
+import { normalizeDate, DATE_PATTERN } from './date.js';
 
 export interface PatchOperation {
     op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
@@ -71,3 +72,85 @@ export function groupByField(patch: PatchOperation[]): Map<string, PatchOperatio
 
     return grouped;
 }
+
+/**
+ * Compare two field values for semantic equality
+ * Numbers match within a cent, strings ignore case and surrounding whitespace,
+ * and printed dates ("15.01.2024", "15. Januar 2024") match their ISO equivalent
+ * @param a First value
+ * @param b Second value
+ * @returns true if values are equivalent
+ */
+export function valuesMatch(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (a === null || a === undefined || b === null || b === undefined) return false;
+
+    if (typeof a === 'number' && typeof b === 'number') {
+        return Math.abs(a - b) < 0.01;
+    }
+
+    if (typeof a === 'string' && typeof b === 'string') {
+        if (a.trim().toLowerCase() === b.trim().toLowerCase()) return true;
+
+        // Date rules may extract "15.01.2024" where the correction holds "2024-01-15"
+        const dateA = toIsoDate(a);
+        return dateA !== null && dateA === toIsoDate(b);
+    }
+
+    // Numeric strings extracted by regex rules vs numeric corrections
+    if (typeof a === 'number' || typeof b === 'number') {
+        const na = typeof a === 'number' ? a : parseFloat(String(a).replace(',', '.'));
+        const nb = typeof b === 'number' ? b : parseFloat(String(b).replace(',', '.'));
+        return !isNaN(na) && !isNaN(nb) && Math.abs(na - nb) < 0.01;
+    }
+
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Read a value by field path ("totalAmount", "lineItems/0/sku")
+ * @param obj Source object
+ * @param path Slash-separated field path
+ * @returns Value or undefined if the path does not exist
+ */
+export function getFieldValue(obj: any, path: string): any {
+    const parts = path.split('/').filter(p => p);
+    let value = obj;
+
+    for (const part of parts) {
+        if (value && typeof value === 'object') {
+            value = value[part];
+        } else {
+            return undefined;
+        }
+    }
+
+    return value;
+}
+
+/**
+ * Write a value by field path, creating intermediate objects and arrays
+ * @param obj Target object (modified in place)
+ * @param path Slash-separated field path
+ * @param value Value to set
+ */
+export function setFieldValue(obj: any, path: string, value: any): void {
+    const parts = path.split('/').filter(p => p);
+    let target = obj;
+
+    parts.slice(0, -1).forEach((part, i) => {
+        if (!target[part] || typeof target[part] !== 'object') {
+            target[part] = /^\d+$/.test(parts[i + 1]) ? [] : {};
+        }
+        target = target[part];
+    });
+
+    target[parts[parts.length - 1]] = value;
+}
+
+function toIsoDate(value: string): string | null {
+    const trimmed = value.trim();
+    if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+    if (!new RegExp(`^(?:${DATE_PATTERN})$`, 'i').test(trimmed)) return null;
+    return normalizeDate(trimmed);
+}
@@ -130,3 +130,16 @@ export function generateFingerprints(name: string): string[] {
 
     return [...new Set(fingerprints)]; // Remove duplicates
 }
+
+/**
+ * Normalize an invoice number for duplicate matching
+ * Ignores case, separators and leading zeros ("INV-2024-003" = "inv 2024/003" = "INV2024003")
+ * @param invoiceNumber Invoice number as printed
+ * @returns Normalized invoice number
+ */
+export function normalizeInvoiceNumber(invoiceNumber: string): string {
+    return invoiceNumber
+        .toUpperCase()
+        .replace(/[^A-Z0-9]/g, '')
+        .replace(/(^|[A-Z])0+(?=\d)/g, '$1');
+}
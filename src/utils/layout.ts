@@ -0,0 +1,127 @@
+/**
+ * Text Layout Utility
+ * Line, token and column views of raw invoice text for anchor and positional extraction
+ */
+
+export interface TextSpan {
+    text: string;
+    line: number; // Line index
+    start: number; // Column where the span starts
+    end: number; // Column after the span ends
+}
+
+/**
+ * Split text into lines
+ * @param text Raw text
+ * @returns Array of lines without line terminators
+ */
+export function splitLines(text: string): string[] {
+    return text.split(/\r?\n/);
+}
+
+/**
+ * Split a line into whitespace-separated tokens
+ * @param line Line text
+ * @param lineIndex Index of the line
+ * @returns Tokens with column positions
+ */
+export function splitTokens(line: string, lineIndex: number = 0): TextSpan[] {
+    return collectSpans(line, lineIndex, /\S+/g);
+}
+
+/**
+ * Split a line into table cells
+ * Cells are separated by tabs or runs of two or more spaces
+ * @param line Line text
+ * @param lineIndex Index of the line
+ * @returns Cells with column positions
+ */
+export function splitCells(line: string, lineIndex: number = 0): TextSpan[] {
+    return collectSpans(line, lineIndex, /\S+(?: \S+)*/g);
+}
+
+/**
+ * Find the first occurrence of a label pattern
+ * @param lines Text lines
+ * @param label Regex source of the label (matched case-insensitively)
+ * @returns Span of the label or null
+ */
+export function findLabel(lines: string[], label: string): TextSpan | null {
+    let regex: RegExp;
+    try {
+        regex = new RegExp(label, 'i');
+    } catch {
+        return null;
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+        const match = regex.exec(lines[i]);
+        if (match) {
+            return {
+                text: match[0],
+                line: i,
+                start: match.index,
+                end: match.index + match[0].length,
+            };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Find the span that sits in the same column as a reference span
+ * Picks the span with the largest horizontal overlap, then the nearest one
+ * @param spans Candidate spans (usually the cells of one row)
+ * @param start Reference start column
+ * @param end Reference end column
+ * @param tolerance Maximum distance for non-overlapping spans
+ * @returns Best aligned span or null
+ */
+export function spanAtColumn(
+    spans: TextSpan[],
+    start: number,
+    end: number,
+    tolerance: number = 4
+): TextSpan | null {
+    let best: TextSpan | null = null;
+    let bestOverlap = 0;
+
+    for (const span of spans) {
+        const overlap = Math.min(end, span.end) - Math.max(start, span.start);
+        if (overlap > bestOverlap) {
+            best = span;
+            bestOverlap = overlap;
+        }
+    }
+
+    if (best) return best;
+
+    // No overlap: fall back to the nearest span within tolerance
+    let bestDistance = tolerance + 1;
+    for (const span of spans) {
+        const distance = span.start >= end ? span.start - end : start - span.end;
+        if (distance < bestDistance) {
+            best = span;
+            bestDistance = distance;
+        }
+    }
+
+    return best;
+}
+
+function collectSpans(line: string, lineIndex: number, pattern: RegExp): TextSpan[] {
+    const spans: TextSpan[] = [];
+
+    for (const match of line.matchAll(pattern)) {
+        const start = match.index ?? 0;
+        spans.push({
+            text: match[0],
+            line: lineIndex,
+            start,
+            end: start + match[0].length,
+        });
+    }
+
+    return spans;
+}
@@ -0,0 +1,87 @@
+/**
+ * Payment Terms Utility Functions
+ * Parses German, English and French payment terms into Skonto tiers and net days
+ */
+
+import { PaymentTerms, PaymentDiscount } from '../types/index.js';
+
+const DAYS = '(\\d{1,3})\\s*(?:tagen|tage|tg\\.?|days?|jours?)';
+const PERCENT = '(\\d{1,2}(?:[.,]\\d{1,2})?)\\s*%';
+
+/**
+ * Clauses stating that the total is due on receipt
+ */
+const IMMEDIATE_PATTERN = /sofort|ohne abzug zahlbar bei erhalt|bei erhalt|immediately|due on receipt|upon receipt|à réception|comptant/;
+
+/**
+ * Percentages that are not discounts (tax, late payment interest)
+ */
+const NON_DISCOUNT_PATTERN = /mwst|ust\b|vat|tva|zins|interest|intérêt|verzug|pénalit/;
+
+/**
+ * Parse payment terms ("14 Tage 2% Skonto, 30 Tage netto", "2/10 net 30",
+ * "2% discount within 10 days, net 30 days", "escompte 2% à 10 jours, 30 jours net")
+ * Every clause with a percentage is a discount tier; a clause with days and no
+ * percentage states the net period
+ * @param text Payment terms as printed
+ * @returns Structured terms or null if nothing was recognized
+ */
+export function parsePaymentTerms(text: string): PaymentTerms | null {
+    if (!text) return null;
+
+    const normalized = String(text).toLowerCase().replace(/\s+/g, ' ').trim();
+    const discounts: PaymentDiscount[] = [];
+    let netDays: number | undefined;
+
+    // Shorthand "2/10 net 30" (2% within 10 days, due in 30)
+    const shorthand = normalized.match(/(\d{1,2}(?:\.\d{1,2})?)\s*\/\s*(\d{1,3})\s*,?\s*n(?:et)?\s*\/?\s*(\d{1,3})/);
+    if (shorthand) {
+        return {
+            discounts: [{ percent: parseFloat(shorthand[1]), days: parseInt(shorthand[2]) }],
+            netDays: parseInt(shorthand[3]),
+        };
+    }
+
+    for (const clause of normalized.split(/,(?!\d)|;|\b(?:oder|sonst|or|otherwise|ou|sinon)\b/)) {
+        const percent = clause.match(new RegExp(PERCENT));
+        const days = clause.match(new RegExp(DAYS));
+
+        if (percent && !NON_DISCOUNT_PATTERN.test(clause)) {
+            discounts.push({
+                percent: parseFloat(percent[1].replace(',', '.')),
+                days: days ? parseInt(days[1]) : undefined,
+            });
+        } else if (days) {
+            netDays = Math.max(netDays ?? 0, parseInt(days[1]));
+        } else {
+            // "net 30", "netto 30", "Zahlungsziel 30"
+            const net = clause.match(/\b(?:net|netto|zahlungsziel)\s*:?\s*(\d{1,3})\b/);
+            if (net) {
+                netDays = Math.max(netDays ?? 0, parseInt(net[1]));
+            } else if (IMMEDIATE_PATTERN.test(clause) && netDays === undefined) {
+                netDays = 0;
+            }
+        }
+    }
+
+    if (discounts.length === 0 && netDays === undefined) return null;
+
+    return {
+        discounts: discounts.sort((a, b) => (a.days ?? Infinity) - (b.days ?? Infinity)),
+        netDays,
+    };
+}
+
+/**
+ * Render structured terms ("2% within 14 days, net 30 days")
+ */
+export function formatPaymentTerms(terms: PaymentTerms): string {
+    const parts = terms.discounts.map(discount => discount.days !== undefined
+        ? `${discount.percent}% within ${discount.days} days`
+        : `${discount.percent}% discount`);
+
+    if (terms.netDays === 0) parts.push('due immediately');
+    else if (terms.netDays !== undefined) parts.push(`net ${terms.netDays} days`);
+
+    return parts.join(', ');
+}